@@ -4,9 +4,25 @@ import multer from 'multer';
 import cors from 'cors';
 import fs from 'fs';
 import path from 'path';
+import os from 'os';
+import crypto from 'crypto';
 import { fileURLToPath } from 'url';
 import { execSync } from 'child_process';
 import { spawn } from 'child_process';
+import { SPLIT_MODES, DEFAULT_MAX_CHARS } from './lib/segmentation.js';
+import { wrapCues, getDefaultLineChars, DEFAULT_MAX_LINES } from './lib/lineWrap.js';
+import { parseTimedScript, hasInlineTimings, normalizeCueList } from './lib/timedScript.js';
+import { generateASS, writeSubtitleFiles, SUBTITLE_FORMATS, CAPTION_ANIMATIONS, CAPTION_POSITIONS } from './lib/subtitleFormats.js';
+import { SAFE_ZONE_NAMES } from './lib/safeZones.js';
+import { listInstalledFonts, sanitizeFontFamily, openFontLibrary } from './lib/fonts.js';
+import { alignScript } from './lib/alignment.js';
+import { timeBySilence, DEFAULT_SILENCE_THRESHOLD, DEFAULT_MIN_SILENCE } from './lib/silence.js';
+import { openJobStore, JOB_STATUSES } from './lib/jobStore.js';
+import { createWorkQueue, parsePriority } from './lib/workQueue.js';
+import { openUploadStore, UPLOAD_KINDS } from './lib/uploadStore.js';
+import { openPresetStore } from './lib/presetStore.js';
+import { EXPORT_PROFILES, parseExportProfiles, getProfileOptions } from './lib/exportProfiles.js';
+import { VIDEO_CODECS, CONTAINERS, SPEED_PRESETS, listEncoders, listAvailableCodecs, normalizeEncodingOptions, getFrameFilters, getVideoEncoderArgs, getAudioArgs } from './lib/encoding.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -50,7 +66,7 @@ try {
 
 // Middleware
 app.use(cors());
-app.use(express.json());
+app.use(express.json({ limit: '10mb' })); // Scripts and edited cue lists can be large
 
 // ===== ORGANIZED DIRECTORY STRUCTURE =====
 // Create separate directories for better file organization
@@ -58,9 +74,11 @@ const uploadsDir = path.join(__dirname, 'uploads');
 const subtitlesDir = path.join(__dirname, 'subtitles');
 const tempDir = path.join(__dirname, 'temp');
 const processedDir = path.join(__dirname, 'processed');
+const dataDir = path.join(__dirname, 'data');
+const fontsDir = path.join(__dirname, 'fonts');
 
 console.log('📁 Creating directory structure:');
-[uploadsDir, subtitlesDir, tempDir, processedDir].forEach(dir => {
+[uploadsDir, subtitlesDir, tempDir, processedDir, dataDir, fontsDir].forEach(dir => {
   if (!fs.existsSync(dir)) {
     fs.mkdirSync(dir, { recursive: true });
     console.log(`   Created: ${path.basename(dir)}/`);
@@ -69,6 +87,16 @@ console.log('📁 Creating directory structure:');
   }
 });
 
+// Helper function to check an uploaded file is a script: plain text plus subtitle files with timings (SRT, WebVTT, ASS)
+function isScriptFile(file) {
+  return file.mimetype === 'text/plain' || /\.(txt|srt|vtt|ass|ssa)$/i.test(file.originalname);
+}
+
+// Helper function to check an uploaded file is a video, accepting all video formats regardless of case
+function isVideoFile(file) {
+  return file.mimetype.startsWith('video/') || /\.(mp4|mov|avi|mkv|webm|flv|wmv|m4v|3gp)$/i.test(file.originalname);
+}
+
 // Configure multer for file uploads
 const storage = multer.diskStorage({
   destination: (req, file, cb) => {
@@ -86,73 +114,276 @@ const upload = multer({
     fileSize: 500 * 1024 * 1024 // 500MB limit
   },
   fileFilter: (req, file, cb) => {
-    if (file.fieldname === 'script') {
-      cb(null, file.mimetype === 'text/plain');
-    } else if (file.fieldname === 'video') {
-      // Accept all video formats regardless of case
-      const isVideo = file.mimetype.startsWith('video/') || 
-                     file.originalname.match(/\.(mp4|mov|avi|mkv|webm|flv|wmv|m4v|3gp)$/i);
-      cb(null, isVideo);
+    if (file.fieldname === 'script' || file.fieldname.startsWith('script_')) {
+      cb(null, isScriptFile(file));
+    } else if (file.fieldname === 'video' || file.fieldname.startsWith('video_')) {
+      cb(null, isVideoFile(file));
     } else {
       cb(new Error('Invalid field name'));
     }
   }
 });
 
-// Global progress tracking
-global.processingProgress = {};
-global.processingResults = {};
+// ===== FONT LIBRARY =====
+// Uploaded TTF/OTF fonts live in fonts/ and are passed to the subtitles filter as its fontsdir
+const fontLibrary = openFontLibrary(fontsDir);
+
+// Fonts are checked in memory before anything is written to the library
+const fontUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: 20 * 1024 * 1024 // 20MB limit
+  },
+  fileFilter: (req, file, cb) => {
+    cb(null, /\.(ttf|otf)$/i.test(file.originalname));
+  }
+});
+
+// ===== RESUMABLE UPLOADS =====
+// Chunked uploads bypass the multipart size cap; incomplete uploads are dropped after UPLOAD_LIFETIME_HOURS
+const MAX_UPLOAD_SIZE_MB = parseInt(process.env.MAX_UPLOAD_SIZE_MB, 10) || 4096;
+const UPLOAD_LIFETIME_HOURS = parseFloat(process.env.UPLOAD_LIFETIME_HOURS) || 24;
+const UPLOAD_CHUNK_SIZE = 8 * 1024 * 1024; // Suggested chunk size; any size up to the remaining bytes is accepted
+const uploadStore = openUploadStore(path.join(uploadsDir, 'partial'), {
+  maxSize: MAX_UPLOAD_SIZE_MB * 1024 * 1024,
+  lifetimeMs: UPLOAD_LIFETIME_HOURS * 60 * 60 * 1000
+});
+
+// ===== JOB STORE =====
+// Job progress, results and history persist in data/jobs.json; finished jobs are
+// pruned (with their output files) after JOB_RETENTION_DAYS
+const JOB_RETENTION_DAYS = parseFloat(process.env.JOB_RETENTION_DAYS) || 7;
+const jobStore = openJobStore(path.join(dataDir, 'jobs.json'), {
+  retentionMs: JOB_RETENTION_DAYS * 24 * 60 * 60 * 1000
+});
+
+// ===== STYLE PRESETS =====
+// Named caption option sets live in data/presets.json
+const presetStore = openPresetStore(path.join(dataDir, 'presets.json'));
+
+// ===== RENDER QUEUE =====
+// At most MAX_CONCURRENT_RENDERS videos go through FFmpeg at once (default: half the CPU cores)
+const MAX_CONCURRENT_RENDERS = parseInt(process.env.MAX_CONCURRENT_RENDERS, 10) || Math.max(1, Math.floor(os.cpus().length / 2));
+const renderQueue = createWorkQueue({
+  concurrency: MAX_CONCURRENT_RENDERS,
+  // Waiting jobs' positions change whenever the queue moves; let their event streams know
+  onChange: () => renderQueue.waitingJobIds().forEach(jobId => {
+    const job = jobStore.get(jobId);
+    if (job) jobStore.publish(jobId, 'progress', job);
+  })
+});
+
+// Re-renders running from each single job's source video (kept in the job record as `source`),
+// so the source is not deleted under them
+const sourceRenders = {};
+
+// Abort controllers of running jobs; aborting one kills its FFmpeg/FFprobe processes
+const jobControllers = {};
+
+// Supported cue timing strategies: fixed per-word estimate, alignment to the audio track,
+// or distribution across the speech between detected silences
+const TIMING_MODES = ['estimate', 'align', 'silence'];
+
+// How subtitles end up in the output: burned into the picture, muxed as a selectable track, or both
+const OUTPUT_MODES = ['burn', 'soft', 'both'];
+
+// How cues are drawn: whole cues at once, or karaoke with each word highlighted as it is spoken
+const CAPTION_STYLES = ['standard', 'karaoke'];
+
+// Subtitle track codec of each output container; MKV keeps the styled ASS track
+const SUBTITLE_TRACK_CODECS = { mkv: 'ass', mp4: 'mov_text', mov: 'mov_text', webm: 'webvtt' };
+
+// Preview of a render: an animated GIF, or a low-res MP4/WebM clip with sound for the browser's player
+const PREVIEW_FORMATS = ['gif', 'mp4', 'webm'];
+const DEFAULT_PREVIEW_DURATION = 3;
+
+// Encoder settings for MP4/WebM previews; the source's audio is kept when it has any
+const PREVIEW_CLIP_CODECS = {
+  mp4: ['-c:v', 'libx264', '-preset', 'veryfast', '-crf', '28', '-pix_fmt', 'yuv420p', '-c:a', 'aac', '-b:a', '96k', '-movflags', '+faststart'],
+  webm: ['-c:v', 'libvpx-vp9', '-deadline', 'realtime', '-cpu-used', '8', '-crf', '40', '-b:v', '0', '-c:a', 'libopus', '-b:a', '64k']
+};
+const PREVIEW_CLIP_ENCODERS = { mp4: ['libx264', 'aac'], webm: ['libvpx-vp9', 'libopus'] };
+
+// Helper function to list the preview formats the local FFmpeg can encode; GIF needs no optional
+// encoder, and is the only one offered when FFmpeg's encoders could not be read
+function listPreviewFormats() {
+  const encoders = listEncoders(ffmpegPath);
+  return PREVIEW_FORMATS.filter(format =>
+    format === 'gif' || (encoders && PREVIEW_CLIP_ENCODERS[format].every(encoder => encoders.has(encoder)))
+  );
+}
+
+// Helper function to read a number within [min, max]; unlike `parseFloat(x) || fallback`, 0 is kept
+function clampNumber(value, min, max, fallback) {
+  const number = parseFloat(value);
+  return Number.isFinite(number) ? Math.max(min, Math.min(max, number)) : fallback;
+}
+
+// Helper function to read a #RRGGBB colour
+function normalizeColor(value, fallback) {
+  return /^#[0-9a-f]{6}$/i.test(value) ? value : fallback;
+}
+
+// Multipart bodies send booleans as strings
+function parseBoolean(value) {
+  return value === true || value === 'true';
+}
+
+// Helper function to validate caption options from a request body
+function normalizeOptions(options = {}) {
+  return {
+    baseDuration: Math.max(0.1, Math.min(10, parseFloat(options.baseDuration) || 3)),
+    wordDuration: Math.max(0.1, Math.min(2, parseFloat(options.wordDuration) || 0.3)),
+    splitMode: SPLIT_MODES.includes(options.splitMode) ? options.splitMode : 'line',
+    maxChars: Math.max(10, Math.min(200, parseInt(options.maxChars) || DEFAULT_MAX_CHARS)),
+    // 0 picks the characters per line from the video's aspect ratio
+    maxLineChars: parseInt(options.maxLineChars) > 0 ? Math.max(10, Math.min(80, parseInt(options.maxLineChars))) : 0,
+    maxLines: Math.round(clampNumber(options.maxLines, 1, 4, DEFAULT_MAX_LINES)),
+    timingMode: TIMING_MODES.includes(options.timingMode) ? options.timingMode : 'estimate',
+    silenceThreshold: Math.max(-90, Math.min(-10, parseFloat(options.silenceThreshold) || DEFAULT_SILENCE_THRESHOLD)),
+    minSilenceDuration: Math.max(0.1, Math.min(5, parseFloat(options.minSilenceDuration) || DEFAULT_MIN_SILENCE)),
+    fontColor: normalizeColor(options.fontColor, '#EC4899'),
+    fontWeight: options.fontWeight || 'bold',
+    captionStyle: CAPTION_STYLES.includes(options.captionStyle) ? options.captionStyle : 'standard',
+    highlightColor: normalizeColor(options.highlightColor, '#FACC15'),
+    animation: CAPTION_ANIMATIONS.includes(options.animation) ? options.animation : 'none',
+    // Pixels on the 384x288 reference frame (12-48), or a percentage of the frame height (2-20)
+    fontSizeUnit: options.fontSizeUnit === 'percent' ? 'percent' : 'px',
+    fontSize: options.fontSizeUnit === 'percent'
+      ? clampNumber(options.fontSize, 2, 20, 5)
+      : Math.max(12, Math.min(48, parseInt(options.fontSize) || 24)),
+    fontFamily: sanitizeFontFamily(options.fontFamily),
+    fontOpacity: clampNumber(options.fontOpacity, 0, 100, 100),
+    italic: parseBoolean(options.italic),
+    underline: parseBoolean(options.underline),
+    outlineColor: normalizeColor(options.outlineColor, '#000000'),
+    outlineOpacity: clampNumber(options.outlineOpacity, 0, 100, 100),
+    outlineWidth: clampNumber(options.outlineWidth, 0, 10, 1),
+    shadowColor: normalizeColor(options.shadowColor, '#000000'),
+    shadowOpacity: clampNumber(options.shadowOpacity, 0, 100, 50),
+    shadowDepth: clampNumber(options.shadowDepth, 0, 10, 0),
+    backgroundBox: parseBoolean(options.backgroundBox),
+    backgroundColor: normalizeColor(options.backgroundColor, '#000000'),
+    backgroundOpacity: clampNumber(options.backgroundOpacity, 0, 100, 60),
+    marginH: Math.round(clampNumber(options.marginH, 0, 150, 10)),
+    marginV: Math.round(clampNumber(options.marginV, 0, 150, 10)),
+    position: CAPTION_POSITIONS.includes(options.position) ? options.position : 'bottom',
+    offsetX: clampNumber(options.offsetX, -50, 50, 0),
+    offsetY: clampNumber(options.offsetY, -50, 50, 0),
+    safeZone: SAFE_ZONE_NAMES.includes(options.safeZone) ? options.safeZone : 'none',
+    outputMode: OUTPUT_MODES.includes(options.outputMode) ? options.outputMode : 'burn',
+    // Seconds into the video; below 0 the preview starts at the first caption
+    previewStart: parseFloat(options.previewStart) >= 0 ? clampNumber(options.previewStart, 0, 86400, 0) : -1,
+    previewDuration: clampNumber(options.previewDuration, 1, 15, DEFAULT_PREVIEW_DURATION),
+    previewFormat: listPreviewFormats().includes(options.previewFormat) ? options.previewFormat : 'gif',
+    // Longest output in seconds, for platforms that limit it; 0 renders as much as the video and script cover
+    maxDuration: clampNumber(options.maxDuration, 0, 86400, 0),
+    ...normalizeEncodingOptions(options, listAvailableCodecs(ffmpegPath).codecs)
+  };
+}
 
 // Helper function to parse script into subtitles
 function parseScript(scriptContent, options = {}) {
   const {
     baseDuration = 3,
     wordDuration = 0.3,
-    splitMode = 'line'
+    splitMode = 'line',
+    maxChars = DEFAULT_MAX_CHARS
   } = options;
 
-  const lines = scriptContent.split('\n').filter(line => line.trim());
+  // Explicit timings in the script are used verbatim; untimed text gets the computed duration
+  const entries = parseTimedScript(scriptContent, { splitMode, maxChars });
   const subtitles = [];
   let currentTime = 0;
 
-  lines.forEach((line, index) => {
-    const text = line.trim();
-    if (!text) return;
-
+  entries.forEach((entry, index) => {
+    const text = entry.text;
     const wordCount = text.split(/\s+/).length;
-    const duration = baseDuration + (wordCount * wordDuration);
+    const estimatedDuration = baseDuration + (wordCount * wordDuration);
+
+    const start = entry.start ?? currentTime;
+    let end = entry.end ?? start + estimatedDuration;
+    if (end <= start) {
+      end = start + estimatedDuration;
+    }
+
+    // Cues without an explicit end stop where the next timed cue begins
+    if (entry.end === undefined) {
+      const nextTimed = entries.slice(index + 1).find(next => next.start !== undefined);
+      if (nextTimed && nextTimed.start > start) {
+        end = Math.min(end, nextTimed.start);
+      }
+    }
 
     subtitles.push({
       id: index + 1,
       text: text,
-      start: currentTime,
-      end: currentTime + duration,
-      duration: duration
+      start: start,
+      end: end,
+      duration: end - start
     });
 
-    currentTime += duration;
+    currentTime = end;
   });
 
   return subtitles;
 }
 
-// Helper function to generate SRT content
-function generateSRT(subtitles) {
-  return subtitles.map(sub => {
-    const startTime = formatTime(sub.start);
-    const endTime = formatTime(sub.end);
-    return `${sub.id}\n${startTime} --> ${endTime}\n${sub.text}\n`;
-  }).join('\n');
-}
-
-// Helper function to format time for SRT
-function formatTime(seconds) {
-  const hours = Math.floor(seconds / 3600);
-  const minutes = Math.floor((seconds % 3600) / 60);
-  const secs = Math.floor(seconds % 60);
-  const ms = Math.floor((seconds % 1) * 1000);
-  
-  return `${hours.toString().padStart(2, '0')}:${minutes.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')},${ms.toString().padStart(3, '0')}`;
+// Helper function to read a video's duration and dimensions with FFprobe
+function probeVideo(videoPath, signal) {
+  return new Promise((resolve, reject) => {
+    let ffprobePath = 'ffprobe';
+    try {
+      const result = execSync('which ffprobe || where ffprobe', { encoding: 'utf8' });
+      if (result.trim()) {
+        ffprobePath = result.trim().split('\n')[0];
+      }
+    } catch (error) {
+      console.log('⚠️  FFprobe not found in system PATH.');
+    }
+    if (process.env.FFPROBE_PATH) {
+      ffprobePath = process.env.FFPROBE_PATH;
+    }
+    
+    const ffprobeArgs = ['-v', 'quiet', '-print_format', 'json', '-show_format', '-show_streams', videoPath];
+    const ffprobe = spawn(ffprobePath, ffprobeArgs, { stdio: ['pipe', 'pipe', 'pipe'], signal });
+    
+    let output = '';
+    let errorOutput = '';
+    
+    ffprobe.stdout.on('data', (data) => { output += data.toString(); });
+    ffprobe.stderr.on('data', (data) => { errorOutput += data.toString(); });
+    
+    ffprobe.on('close', (code) => {
+      if (code !== 0) {
+        return reject(new Error('FFprobe failed: ' + errorOutput));
+      }
+      
+      try {
+        const info = JSON.parse(output);
+        const videoStream = info.streams.find(stream => stream.codec_type === 'video');
+        if (!videoStream) {
+          return reject(new Error('No video stream found'));
+        }
+        
+        const duration = parseFloat(info.format.duration);
+        const width = parseInt(videoStream.width);
+        const height = parseInt(videoStream.height);
+        
+        if (!duration || !width || !height) {
+          return reject(new Error('Could not extract video properties'));
+        }
+        
+        // The first audio stream's codec decides whether renders can copy it into their container
+        const audioStream = info.streams.find(stream => stream.codec_type === 'audio');
+        resolve({ format: { duration }, streams: [{ width, height }], audioCodec: audioStream?.codec_name || null });
+      } catch (parseError) {
+        reject(new Error('Failed to parse video info: ' + parseError.message));
+      }
+    });
+    
+    ffprobe.on('error', reject);
+  });
 }
 
 // Helper function to format duration for display
@@ -164,137 +395,1160 @@ function formatDuration(seconds) {
   if (hours > 0) {
     return `${hours.toString().padStart(2, '0')}:${minutes.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
   }
-  return `${minutes.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
-}
+  return `${minutes.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
+}
+
+// Helper function to quote-proof a path inside an FFmpeg filter argument (forward slashes, escaped colons)
+function escapeFilterPath(filePath) {
+  return filePath.replace(/\\/g, '/').replace(/:/g, '\\:');
+}
+
+// Helper function to safely delete file with retry
+function safeDeleteFile(filePath, maxRetries = 3, delay = 1000) {
+  return new Promise((resolve) => {
+    let attempts = 0;
+    
+    const tryDelete = () => {
+      attempts++;
+      if (!fs.existsSync(filePath)) {
+        resolve();
+        return;
+      }
+      
+      fs.unlink(filePath, (err) => {
+        if (!err) {
+          resolve();
+        } else if (attempts < maxRetries) {
+          console.log(`Retry ${attempts}/${maxRetries} deleting ${filePath}`);
+          setTimeout(tryDelete, delay);
+        } else {
+          console.error(`Failed to delete ${filePath} after ${maxRetries} attempts:`, err.message);
+          resolve(); // Don't fail the entire process
+        }
+      });
+    };
+    
+    tryDelete();
+  });
+}
+
+// Helper function to keep a job's source video for re-rendering as long as the job itself: it is
+// recorded in the job, and deleted with the job's other files when they are pruned or deleted
+function retainJobSource(jobId, videoFile, options) {
+  jobStore.update(jobId, { source: { path: videoFile.path, originalname: videoFile.originalname, options } });
+}
+
+// Helper function to drop a job's source video right away, for jobs that cannot be re-rendered
+function releaseJobSource(jobId) {
+  const source = jobStore.get(jobId)?.source;
+  if (!source) return Promise.resolve();
+  
+  jobStore.update(jobId, { source: null });
+  return safeDeleteFile(source.path);
+}
+
+// Helper function to create a progress reporter for a job
+function createProgressUpdater(jobId) {
+  return (progress, status) => {
+    jobStore.setProgress(jobId, progress, status);
+    console.log(`Job ${jobId} - Progress ${progress}%: ${status}`);
+  };
+}
+
+// Helper function to map a job's result URLs back to the output files on disk
+function getJobArtifacts(job) {
+  const result = job.result || {};
+  const renders = result.batchMode ? (result.results || []) : [result];
+  const outputs = renders.flatMap(output => [output, ...(output.renditions || [])]);
+  const dirs = { download: processedDir, temp: tempDir, subtitles: subtitlesDir };
+  
+  const files = outputs.flatMap(output => [
+    output.downloadUrl,
+    output.previewUrl,
+    ...Object.values(output.subtitleUrls || {})
+  ])
+    .filter(Boolean)
+    .map(url => {
+      const [, dir, filename] = url.split('/');
+      return dirs[dir] ? path.join(dirs[dir], path.basename(filename)) : null;
+    })
+    .filter(Boolean);
+  
+  // The source video kept for re-rendering goes with the outputs
+  return job.source ? [...files, job.source.path] : files;
+}
+
+// Helper function to prune expired jobs and delete their output files
+async function pruneExpiredJobs() {
+  const expired = jobStore.prune();
+  if (expired.length > 0) {
+    console.log(`🧹 Pruning ${expired.length} job(s) older than ${JOB_RETENTION_DAYS} day(s)`);
+    await Promise.all(expired.flatMap(job => getJobArtifacts(job).map(filePath => safeDeleteFile(filePath))));
+  }
+  
+  const abandoned = uploadStore.prune();
+  if (abandoned.length > 0) {
+    console.log(`🧹 Dropped ${abandoned.length} unfinished upload(s) idle for over ${UPLOAD_LIFETIME_HOURS} hour(s)`);
+  }
+}
+
+pruneExpiredJobs();
+setInterval(pruneExpiredJobs, 60 * 60 * 1000);
+
+// Helper function to describe a job's progress for /api/progress and the event stream
+function getProgressSnapshot(job) {
+  const queuePosition = renderQueue.getPosition(job.id);
+  const snapshot = { progress: job.progress, status: job.statusMessage, jobStatus: job.status, queuePosition };
+  
+  // Nothing of the job has started yet, so its place in line is the useful status
+  if (job.status === 'processing' && queuePosition > 0 && !renderQueue.isActive(job.id)) {
+    snapshot.status = `Queued - position ${queuePosition} of ${renderQueue.stats().waiting}`;
+  }
+  
+  return snapshot;
+}
+
+// Helper function to read and check the upload ids a job request references. `uploads` maps a form
+// field name ("video", "script_0", ...) to a finalized upload id; returns [fieldname, uploadId] pairs.
+function checkUploads(uploads) {
+  if (!uploads) return [];
+  const entries = Object.entries(typeof uploads === 'string' ? JSON.parse(uploads) : uploads);
+  
+  entries.forEach(([fieldname, uploadId]) => {
+    const upload = uploadStore.get(uploadId);
+    const kind = fieldname.replace(/_\d+$/, '');
+    if (!upload || !upload.complete) {
+      throw new Error(`Upload for ${fieldname} was not found or is not finished`);
+    }
+    if (upload.kind !== kind) {
+      throw new Error(`Upload for ${fieldname} is a ${upload.kind}, not a ${kind}`);
+    }
+  });
+  
+  return entries;
+}
+
+// Helper function to swap checked upload references for the uploaded files, which leave the upload
+// store. Only call it once the request is otherwise valid: claimed uploads cannot be used again.
+function claimUploads(entries) {
+  // The same upload can be referenced more than once (one video with several scripts in a batch);
+  // each job deletes its own input, so later references get their own copy of the claimed file
+  const claimed = {};
+  const files = [];
+  try {
+    entries.forEach(([fieldname, uploadId]) => {
+      const original = claimed[uploadId];
+      if (!original) {
+        claimed[uploadId] = uploadStore.claim(uploadId, fieldname, uploadsDir);
+        files.push(claimed[uploadId]);
+        return;
+      }
+      
+      const uniqueSuffix = Date.now() + '-' + Math.round(Math.random() * 1E9);
+      const filePath = path.join(uploadsDir, fieldname + '-' + uniqueSuffix + path.extname(original.originalname));
+      fs.copyFileSync(original.path, filePath);
+      files.push({ ...original, fieldname, path: filePath });
+    });
+  } catch (error) {
+    files.forEach(file => safeDeleteFile(file.path));
+    throw error;
+  }
+  return files;
+}
+
+// Helper function to summarise a job for the history list
+function summarizeJob(job) {
+  const result = job.result || {};
+  
+  // Every successful rendition of the job, with what history needs to show and re-download it;
+  // export profile renditions are listed after the render they were made from
+  const outputs = (result.batchMode ? (result.results || []) : [result])
+    .filter(output => output.success)
+    .flatMap(output => {
+      const label = output.videoName || job.inputs[0]?.videoName || 'Video';
+      return [output, ...(output.renditions || []).filter(rendition => rendition.success)].map(render => ({
+        label: render.profile ? `${label} (${render.label})` : label,
+        previewUrl: render.previewUrl,
+        downloadUrl: render.downloadUrl,
+        subtitleUrls: render.subtitleUrls || {}
+      }));
+    });
+  
+  return {
+    id: job.id,
+    type: job.type,
+    status: job.status,
+    progress: job.progress,
+    statusMessage: job.statusMessage,
+    inputs: job.inputs,
+    createdAt: job.createdAt,
+    completedAt: job.completedAt,
+    error: job.error,
+    duration: result.duration,
+    subtitlesCount: result.batchMode
+      ? (result.results || []).reduce((total, output) => total + (output.subtitlesCount || 0), 0)
+      : result.subtitlesCount,
+    successCount: result.successCount,
+    failureCount: result.failureCount,
+    artifactsDeleted: Boolean(job.artifactsDeleted),
+    outputs: job.artifactsDeleted ? [] : outputs
+  };
+}
+
+// Helper function to parse FFmpeg progress output
+function parseFFmpegProgress(line) {
+  const timeMatch = line.match(/time=(\d+):(\d+):(\d+\.\d+)/);
+  if (timeMatch) {
+    const hours = parseInt(timeMatch[1], 10);
+    const minutes = parseInt(timeMatch[2], 10);
+    const seconds = parseFloat(timeMatch[3]);
+    return hours * 3600 + minutes * 60 + seconds;
+  }
+  return null;
+}
+
+// Progress tracking endpoint
+app.get('/api/progress/:jobId', (req, res) => {
+  const job = jobStore.get(req.params.jobId);
+  res.json(job ? getProgressSnapshot(job) : { progress: 0, status: 'Starting...' });
+});
+
+// Live job updates as Server-Sent Events: "progress", per-pair "pair" updates for batches, then
+// one "result" event (the final result, or the error) before the stream closes. A reconnecting
+// client gets the current progress, or straight away the result if the job finished meanwhile.
+app.get('/api/jobs/:jobId/events', (req, res) => {
+  const jobId = req.params.jobId;
+  const job = jobStore.get(jobId);
+  
+  if (!job) {
+    return res.status(404).json({ error: 'Job not found' });
+  }
+  
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    'Connection': 'keep-alive'
+  });
+  
+  const send = (event, data) => {
+    res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  };
+  
+  res.write('retry: 2000\n\n');
+  send('progress', getProgressSnapshot(job));
+  
+  if (job.status !== 'processing') {
+    send('result', { jobStatus: job.status, result: job.result });
+    return res.end();
+  }
+  
+  // Comment lines keep proxies and the browser from timing out an idle stream
+  const heartbeat = setInterval(() => res.write(': keep-alive\n\n'), 15000);
+  
+  const unsubscribe = jobStore.subscribe(jobId, (type, payload) => {
+    if (type === 'progress') {
+      send('progress', getProgressSnapshot(payload));
+    } else if (type === 'complete') {
+      send('progress', getProgressSnapshot(payload));
+      send('result', { jobStatus: payload.status, result: payload.result });
+      close();
+      res.end();
+    } else {
+      send(type, payload);
+    }
+  });
+  
+  const close = () => {
+    clearInterval(heartbeat);
+    unsubscribe();
+  };
+  
+  req.on('close', close);
+});
+
+// Results endpoint
+app.get('/api/result/:jobId', (req, res) => {
+  const jobId = req.params.jobId;
+  const result = jobStore.get(jobId)?.result;
+  
+  if (!result) {
+    return res.status(404).json({ error: 'Result not found' });
+  }
+  
+  res.json(result);
+});
+
+// Test progress endpoint for debugging
+app.post('/api/test-progress/:jobId', (req, res) => {
+  const jobId = req.params.jobId;
+  const { progress, status } = req.body;
+  
+  if (!jobStore.get(jobId)) {
+    jobStore.create(jobId, { type: 'test' });
+  }
+  
+  jobStore.setProgress(jobId, progress, status);
+  console.log(`Test progress set for job ${jobId}:`, { progress, status });
+  
+  res.json({ success: true, jobId, progress, status });
+});
+
+// Helper function to replace estimated cue timings with timings taken from the video's spoken audio,
+// per the options' timing mode. Returns the timing mode used: 'estimate' when it was not asked for or failed.
+async function applyAudioTiming(subtitles, videoPath, videoDuration, processOptions, { signal, updateProgress = () => {} } = {}) {
+  if (processOptions.timingMode === 'estimate') return 'estimate';
+  
+  const texts = subtitles.map(sub => sub.text);
+  try {
+    let timings;
+    if (processOptions.timingMode === 'align') {
+      updateProgress(25, 'Aligning script to audio...');
+      timings = await alignScript({ ffmpegPath, videoPath, texts, duration: videoDuration, signal });
+    } else {
+      updateProgress(25, 'Detecting pauses in audio...');
+      timings = await timeBySilence({
+        ffmpegPath,
+        videoPath,
+        texts,
+        duration: videoDuration,
+        threshold: processOptions.silenceThreshold,
+        minSilence: processOptions.minSilenceDuration,
+        signal
+      });
+    }
+    subtitles.forEach((sub, index) => {
+      sub.start = timings[index].start;
+      sub.end = timings[index].end;
+      sub.duration = sub.end - sub.start;
+      // Aligners that time individual words drive karaoke highlighting precisely
+      if (timings[index].words) {
+        sub.words = timings[index].words;
+      }
+    });
+    return processOptions.timingMode;
+  } catch (timingError) {
+    // A cancelled job must not fall back to estimated timing and carry on
+    signal?.throwIfAborted();
+    console.warn(`Audio-based timing failed, falling back to estimated timing: ${timingError.message}`);
+    return 'estimate';
+  }
+}
+
+// Caption one video; shared by /api/caption (single and batch) and /api/rerender
+async function processSingleVideo(scriptFile, videoFile, options, updateProgress, { keepSource = false, signal } = {}) {
+  let scriptPath = scriptFile?.path;
+  let videoPath = videoFile.path;
+  let srtPath = null;
+  let subtitleFiles = {};
+  let outputPath = null;
+  let previewPath = null;
+  
+  try {
+    updateProgress(10, 'Parsing script...');
+
+    // Parse options from request body with validation
+    const processOptions = normalizeOptions(options);
+
+    // Use the cue list edited in the timeline editor as-is, otherwise read and parse the script
+    const hasEditedCues = Boolean(options.cues);
+    const scriptContent = hasEditedCues ? '' : fs.readFileSync(scriptPath, 'utf8');
+    const subtitles = hasEditedCues
+      ? normalizeCueList(options.cues)
+      : parseScript(scriptContent, processOptions);
+    
+    if (subtitles.length === 0) {
+      throw new Error('No valid subtitles found in script');
+    }
+    
+    updateProgress(20, 'Analyzing video...');
+    
+    // Get video duration and dimensions using the fixed ffprobe logic
+    const videoInfo = await probeVideo(videoPath, signal);
+
+    const videoDuration = videoInfo.format.duration;
+    const videoWidth = videoInfo.streams[0].width;
+    const videoHeight = videoInfo.streams[0].height;
+
+    // Replace estimated timing with real timing from the spoken audio; edited cues were
+    // already timed from the audio when the timeline editor was opened
+    let timingMode = 'estimate';
+    if (processOptions.timingMode !== 'estimate' && (hasEditedCues || hasInlineTimings(scriptContent))) {
+      console.log('Cues have explicit timings, skipping audio-based timing');
+    } else {
+      timingMode = await applyAudioTiming(subtitles, videoPath, videoDuration, processOptions, { signal, updateProgress });
+    }
+    const subtitlesDuration = subtitles[subtitles.length - 1].end;
+    
+    // *** KEY CHANGE: Only process the overlapping duration ***
+    const processingDuration = Math.min(videoDuration, subtitlesDuration, processOptions.maxDuration || Infinity);
+    
+    console.log(`Video: ${videoWidth}x${videoHeight}, Duration: ${videoDuration}s, Subtitles: ${subtitlesDuration}s, Processing: ${processingDuration}s`);
+    
+    updateProgress(30, 'Generating subtitles...');
+    
+    // Filter subtitles to only include those within processing duration
+    let filteredSubtitles = subtitles.filter(sub => sub.start < processingDuration);
+    
+    // Adjust end times of subtitles that extend beyond processing duration
+    filteredSubtitles.forEach(sub => {
+      if (sub.end > processingDuration) {
+        sub.end = processingDuration;
+        sub.duration = sub.end - sub.start;
+      }
+    });
+
+    // Burned-in renders can be resized and retimed; captions are laid out on that final frame
+    const isBurnIn = processOptions.outputMode !== 'soft';
+    const { filters: frameFilters, frame } = isBurnIn
+      ? getFrameFilters({ width: videoWidth, height: videoHeight }, processOptions)
+      : { filters: [], frame: { width: videoWidth, height: videoHeight } };
+
+    // Keep cues within the line limits so long lines don't overflow the frame; without a set
+    // characters-per-line the default follows the video's aspect ratio and the font size
+    const maxLineChars = processOptions.maxLineChars || getDefaultLineChars({ ...frame, style: processOptions });
+    filteredSubtitles = wrapCues(filteredSubtitles, { maxLineChars, maxLines: processOptions.maxLines });
+
+    // Write the subtitle track in every sidecar format; the ASS file, laid out for this video's
+    // resolution, is also what gets burned in
+    const outputBaseName = `captioned-${Date.now()}-${Math.round(Math.random() * 1E6)}`;
+    subtitleFiles = writeSubtitleFiles(filteredSubtitles, processOptions, subtitlesDir, outputBaseName, frame);
+    srtPath = path.join(subtitlesDir, subtitleFiles.srt);
+
+    updateProgress(40, 'Creating preview...');
+
+    // Burn in the ASS file, which carries the style, layout and override tags
+    const subtitleFilter = `subtitles='${escapeFilterPath(path.join(subtitlesDir, subtitleFiles.ass))}':fontsdir='${escapeFilterPath(fontsDir)}'`;
+
+    // A soft-only track copies the source streams, so MP4 and MOV sources keep their container
+    // (with mov_text) and everything else goes to MKV, which holds whatever codecs AVI, WMV, FLV
+    // or WebM sources carry; re-encoded renders use the chosen container
+    const sourceExtension = path.extname(videoFile.originalname || videoPath).slice(1).toLowerCase();
+    const copyExtension = ['mp4', 'm4v'].includes(sourceExtension) ? 'mp4' : sourceExtension === 'mov' ? 'mov' : 'mkv';
+    const outputExtension = isBurnIn ? processOptions.container : copyExtension;
+
+    // Generate output filename
+    const outputFilename = `${outputBaseName}.${outputExtension}`;
+    outputPath = path.join(processedDir, outputFilename);
+    
+    if (!fs.existsSync(path.dirname(outputPath))) {
+      fs.mkdirSync(path.dirname(outputPath), { recursive: true });
+    }
+
+    // Generate the preview
+    const previewFilename = `preview-${Date.now()}-${Math.round(Math.random() * 1E6)}.${processOptions.previewFormat}`;
+    previewPath = path.join(tempDir, previewFilename);
+
+    // Start at the chosen offset (by default the first caption) and draw the burned-in captions, so their style
+    // and animation can be judged from the preview. Seeking restarts timestamps at 0; they are shifted back for
+    // the subtitles filter.
+    const previewDuration = Math.min(processOptions.previewDuration, processingDuration);
+    const requestedPreviewStart = processOptions.previewStart >= 0 ? processOptions.previewStart : filteredSubtitles[0]?.start ?? 0;
+    const previewStart = Math.max(0, Math.min(requestedPreviewStart, processingDuration - previewDuration));
+    const captionFilters = isBurnIn ? [...frameFilters, `setpts=PTS+${previewStart}/TB`, subtitleFilter, 'setpts=PTS-STARTPTS', ''].join(',') : '';
+    const previewInputArgs = ['-ss', previewStart.toString(), '-t', previewDuration.toString(), '-i', videoPath];
+
+    await new Promise((resolve, reject) => {
+      if (processOptions.previewFormat !== 'gif') {
+        const clipArgs = [
+          '-y', ...previewInputArgs,
+          '-vf', `${captionFilters}scale=480:-2`,
+          '-map', '0:v:0', '-map', '0:a:0?',
+          ...PREVIEW_CLIP_CODECS[processOptions.previewFormat],
+          previewPath
+        ];
+        const clipProcess = spawn(ffmpegPath, clipArgs, { stdio: ['pipe', 'pipe', 'pipe'], signal });
+
+        clipProcess.on('close', (code) => {
+          if (code !== 0) {
+            return reject(new Error('Failed to create preview'));
+          }
+          resolve();
+        });
+
+        clipProcess.on('error', reject);
+        return;
+      }
+
+      const palettePath = path.join(tempDir, `palette-${Date.now()}-${Math.round(Math.random() * 1E6)}.png`);
+      const previewFilters = `${captionFilters}fps=10,scale=320:-1:flags=lanczos`;
+
+      const paletteArgs = ['-y', ...previewInputArgs, '-vf', `${previewFilters},palettegen`, palettePath];
+      const paletteProcess = spawn(ffmpegPath, paletteArgs, { stdio: ['pipe', 'pipe', 'pipe'], signal });
+      
+      paletteProcess.on('close', (code) => {
+        if (code !== 0) {
+          safeDeleteFile(palettePath);
+          return reject(new Error('Failed to generate palette'));
+        }
+        
+        const gifArgs = ['-y', ...previewInputArgs, '-i', palettePath, '-filter_complex', `${previewFilters}[x];[x][1:v]paletteuse`, previewPath];
+        const gifProcess = spawn(ffmpegPath, gifArgs, { stdio: ['pipe', 'pipe', 'pipe'], signal });
+        
+        gifProcess.on('close', async (code) => {
+          await safeDeleteFile(palettePath);
+          if (code !== 0) {
+            return reject(new Error('Failed to create preview'));
+          }
+          resolve();
+        });
+        
+        gifProcess.on('error', reject);
+      });
+      
+      paletteProcess.on('error', reject);
+    });
+
+    const processingStatus = isBurnIn ? 'Processing video with captions...' : 'Adding subtitle track...';
+    updateProgress(55, processingStatus);
+
+    // Process video with captions - ONLY for the overlapping duration
+    await new Promise((resolve, reject) => {
+      const ffmpegArgs = ['-y', '-i', videoPath];
+
+      if (processOptions.outputMode !== 'burn') {
+        // MKV keeps the styled ASS track natively; MP4/MOV need mov_text and WebM WebVTT, both from the SRT
+        const trackPath = outputExtension === 'mkv' ? path.join(subtitlesDir, subtitleFiles.ass) : srtPath;
+        ffmpegArgs.push('-i', trackPath);
+      }
+
+      ffmpegArgs.push('-t', processingDuration.toString()); // *** KEY: Limit to overlapping duration ***
+
+      if (isBurnIn) {
+        ffmpegArgs.push(
+          '-vf', [...frameFilters, subtitleFilter].join(','),
+          ...getVideoEncoderArgs(processOptions)
+        );
+      } else {
+        ffmpegArgs.push('-c:v', 'copy');
+      }
+
+      if (processOptions.outputMode !== 'burn') {
+        ffmpegArgs.push(
+          '-map', '0:v:0',
+          '-map', '0:a?',
+          '-map', '1:s:0',
+          '-c:s', SUBTITLE_TRACK_CODECS[outputExtension],
+          '-metadata:s:s:0', 'language=eng',
+          '-disposition:s:0', 'default'
+        );
+      }
+
+      ffmpegArgs.push(
+        ...getAudioArgs(outputExtension, videoInfo.audioCodec),
+        '-progress', 'pipe:2',
+        outputPath
+      );
+      
+      console.log('Processing with overlap duration:', processingDuration, 'seconds');
+      console.log('FFmpeg args:', ffmpegArgs.join(' '));
+      
+      const ffmpegProcess = spawn(ffmpegPath, ffmpegArgs, { stdio: ['pipe', 'pipe', 'pipe'], signal });
+      
+      let stderrOutput = '';
+      
+      ffmpegProcess.stderr.on('data', (data) => {
+        const output = data.toString();
+        stderrOutput += output;
+        
+        const lines = output.split('\n');
+        for (const line of lines) {
+          const currentTime = parseFFmpegProgress(line);
+          if (currentTime !== null) {
+            const ffmpegProgress = Math.min(1, currentTime / processingDuration);
+            const progressPercent = Math.min(95, 55 + (ffmpegProgress * 40));
+            updateProgress(Math.round(progressPercent), processingStatus);
+          }
+        }
+      });
+      
+      ffmpegProcess.on('close', async (code) => {
+        if (code !== 0) {
+          console.error('FFmpeg error:', stderrOutput);
+          return reject(new Error('Failed to process video: ' + stderrOutput));
+        }
+        
+        updateProgress(98, 'Cleaning up...');
+        
+        // Single jobs keep the source video around so they can be re-rendered
+        await Promise.all([
+          safeDeleteFile(scriptPath),
+          keepSource ? null : safeDeleteFile(videoPath)
+        ]);
+        
+        resolve();
+      });
+      
+      ffmpegProcess.on('error', reject);
+    });
+
+    updateProgress(100, 'Complete!');
+
+    return {
+      success: true,
+      duration: formatDuration(processingDuration),
+      durationSeconds: processingDuration,
+      subtitlesCount: filteredSubtitles.length,
+      timingMode: timingMode,
+      outputMode: processOptions.outputMode,
+      previewUrl: `/temp/${previewFilename}`,
+      previewStart,
+      previewDuration,
+      downloadUrl: `/download/${outputFilename}`,
+      subtitleUrls: Object.fromEntries(
+        Object.entries(subtitleFiles).map(([format, filename]) => [format, `/subtitles/${filename}`])
+      ),
+      subtitles: filteredSubtitles
+    };
+
+  } catch (error) {
+    console.error('Error processing single video:', error);
+    
+    // Failed or cancelled renders leave no partial output behind
+    await Promise.all([
+      safeDeleteFile(scriptPath),
+      keepSource ? null : safeDeleteFile(videoPath),
+      outputPath ? safeDeleteFile(outputPath) : null,
+      previewPath ? safeDeleteFile(previewPath) : null,
+      ...Object.values(subtitleFiles).map(filename => safeDeleteFile(path.join(subtitlesDir, filename)))
+    ]);
+    
+    throw error;
+  }
+}
+
+// Caption one video with the job's options, then once more per export profile the job asked for.
+// Renditions reuse the main render's cues, so audio timing runs once, and are listed under
+// `renditions`; one that fails is reported there without failing the job.
+async function processWithRenditions(scriptFile, videoFile, options, updateProgress, { keepSource = false, signal } = {}) {
+  const profileIds = parseExportProfiles(options.exportProfiles);
+  const renderCount = profileIds.length + 1;
+
+  // Each render gets an equal share of the job's progress
+  const updateStepProgress = (step, label) => (progress, status) => {
+    updateProgress(Math.round((step * 100 + progress) / renderCount), label ? `${label}: ${status}` : status);
+  };
+
+  let result = null;
+  const renditions = [];
+  try {
+    result = await processSingleVideo(scriptFile, videoFile, options, updateStepProgress(0), {
+      keepSource: keepSource || profileIds.length > 0,
+      signal
+    });
+    if (profileIds.length === 0) return result;
+
+    for (const [index, profileId] of profileIds.entries()) {
+      const { label } = EXPORT_PROFILES[profileId];
+      const profileOptions = { ...getProfileOptions(profileId, options), cues: result.subtitles };
+
+      try {
+        const rendition = await processSingleVideo(null, videoFile, profileOptions, updateStepProgress(index + 1, label), { keepSource: true, signal });
+        renditions.push({
+          profile: profileId,
+          label,
+          success: true,
+          duration: rendition.duration,
+          durationSeconds: rendition.durationSeconds,
+          subtitlesCount: rendition.subtitlesCount,
+          previewUrl: rendition.previewUrl,
+          downloadUrl: rendition.downloadUrl,
+          subtitleUrls: rendition.subtitleUrls
+        });
+      } catch (error) {
+        signal?.throwIfAborted();
+        console.error(`Error rendering ${label} rendition:`, error);
+        renditions.push({ profile: profileId, label, success: false, error: error.message });
+      }
+    }
+  } catch (error) {
+    // A cancelled job keeps none of its renders
+    if (result) {
+      await Promise.all(getJobArtifacts({ result: { ...result, renditions } }).map(filePath => safeDeleteFile(filePath)));
+    }
+    throw error;
+  } finally {
+    if (!keepSource) {
+      await safeDeleteFile(videoFile.path);
+    }
+  }
+
+  updateProgress(100, 'Complete!');
+  return { ...result, renditions };
+}
+
+// Job history, newest first; ?status=processing|completed|failed, ?from=/?to= (ISO timestamps) and ?limit=N narrow the list
+app.get('/api/jobs', (req, res) => {
+  const { status, from, to } = req.query;
+  const limit = parseInt(req.query.limit, 10);
+  
+  if (status && !JOB_STATUSES.includes(status)) {
+    return res.status(400).json({ error: `Unknown job status: ${status}` });
+  }
+  
+  const jobs = jobStore.list({ status, from, to }).map(summarizeJob);
+  res.json({ jobs: limit > 0 ? jobs.slice(0, limit) : jobs });
+});
+
+// Single job record, including its options and full result
+app.get('/api/jobs/:jobId', (req, res) => {
+  const job = jobStore.get(req.params.jobId);
+  
+  if (!job) {
+    return res.status(404).json({ error: 'Job not found' });
+  }
+  
+  res.json(job);
+});
+
+// Cancel a queued or running job: its FFmpeg processes are killed and partial outputs removed;
+// batch pairs that already finished keep their outputs
+app.post('/api/jobs/:jobId/cancel', (req, res) => {
+  const job = jobStore.get(req.params.jobId);
+  
+  if (!job) {
+    return res.status(404).json({ error: 'Job not found' });
+  }
+  
+  if (job.status !== 'processing') {
+    return res.status(409).json({ error: `Job has already ${job.status === 'cancelled' ? 'been cancelled' : 'finished'}` });
+  }
+  
+  const reason = new Error('Job cancelled');
+  const controller = jobControllers[job.id];
+  renderQueue.cancel(job.id, reason);
+  
+  if (controller) {
+    controller.abort(reason);
+  } else {
+    // Nothing is running for it (e.g. a leftover test job), so just close the record
+    jobStore.complete(job.id, { success: false, cancelled: true, error: 'Job cancelled' });
+  }
+  
+  console.log(`🛑 Cancelled job ${job.id}`);
+  res.json({ success: true, jobId: job.id });
+});
+
+// Delete a finished job's output files from disk; the job stays in history marked as deleted
+app.delete('/api/jobs/:jobId/artifacts', async (req, res) => {
+  const job = jobStore.get(req.params.jobId);
+  
+  if (!job) {
+    return res.status(404).json({ error: 'Job not found' });
+  }
+  
+  if (job.status === 'processing') {
+    return res.status(409).json({ error: 'Job is still processing' });
+  }
+  
+  if (sourceRenders[job.id]) {
+    return res.status(409).json({ error: 'A re-render of this job is still processing' });
+  }
+  
+  const artifacts = getJobArtifacts(job);
+  await Promise.all(artifacts.map(filePath => safeDeleteFile(filePath)));
+  jobStore.update(job.id, { artifactsDeleted: true, source: null });
+  
+  console.log(`🗑️  Deleted ${artifacts.length} file(s) for job ${job.id}`);
+  res.json({ success: true, jobId: job.id, deletedCount: artifacts.length });
+});
+
+// Helper function to read a preset name and options from a request body
+function readPresetBody(body = {}) {
+  const name = typeof body.name === 'string' ? body.name.trim().slice(0, 80) : '';
+  return { name, options: body.options ? normalizeOptions(body.options) : undefined };
+}
+
+// Helper function to resolve a job request's presetId: the preset's options, overridden by option fields sent alongside.
+// Returns null for an unknown preset.
+function applyPreset(body) {
+  if (!body.presetId) return body;
+  const preset = presetStore.get(body.presetId);
+  return preset ? { ...preset.options, ...body } : null;
+}
+
+// List presets; `defaultPresetId` is applied by the frontend on load
+app.get('/api/presets', (req, res) => {
+  const defaultPreset = presetStore.getDefault();
+  res.json({ presets: presetStore.list(), defaultPresetId: defaultPreset ? defaultPreset.id : null });
+});
+
+// Download every preset as a JSON file that /api/presets/import accepts
+app.get('/api/presets/export', (req, res) => {
+  const presets = presetStore.list().map(({ name, options, isDefault }) => ({ name, options, isDefault }));
+  res.setHeader('Content-Disposition', 'attachment; filename="caption-presets.json"');
+  res.json({ version: 1, exportedAt: new Date().toISOString(), presets });
+});
+
+// Add presets from an export; presets with an existing name are overwritten
+app.post('/api/presets/import', (req, res) => {
+  const entries = Array.isArray(req.body) ? req.body : req.body?.presets;
+  
+  if (!Array.isArray(entries) || entries.length === 0) {
+    return res.status(400).json({ error: 'Expected a presets export with a "presets" array' });
+  }
+  
+  const invalid = entries.findIndex(entry => !readPresetBody(entry).name || !entry.options);
+  if (invalid !== -1) {
+    return res.status(400).json({ error: `Preset ${invalid + 1} needs a name and options` });
+  }
+  
+  const imported = entries.map(entry => {
+    const { name, options } = readPresetBody(entry);
+    const existing = presetStore.findByName(name);
+    const preset = existing ? presetStore.update(existing.id, { options }) : presetStore.create(name, options);
+    if (entry.isDefault) {
+      presetStore.setDefault(preset.id);
+    }
+    return preset;
+  });
+  
+  console.log(`🎨 Imported ${imported.length} preset(s)`);
+  res.json({ success: true, importedCount: imported.length, presets: presetStore.list() });
+});
+
+app.get('/api/presets/:presetId', (req, res) => {
+  const preset = presetStore.get(req.params.presetId);
+  
+  if (!preset) {
+    return res.status(404).json({ error: 'Preset not found' });
+  }
+  
+  res.json(preset);
+});
+
+// Save the given options as a new named preset
+app.post('/api/presets', (req, res) => {
+  const { name, options } = readPresetBody(req.body);
+  
+  if (!name || !options) {
+    return res.status(400).json({ error: 'Preset name and options are required' });
+  }
+  if (presetStore.findByName(name)) {
+    return res.status(409).json({ error: `A preset named "${name}" already exists` });
+  }
+  
+  const preset = presetStore.create(name, options);
+  if (req.body.isDefault) {
+    presetStore.setDefault(preset.id);
+  }
+  res.status(201).json(presetStore.get(preset.id));
+});
+
+// Rename a preset and/or replace its options
+app.put('/api/presets/:presetId', (req, res) => {
+  const { name, options } = readPresetBody(req.body);
+  const preset = presetStore.get(req.params.presetId);
+  
+  if (!preset) {
+    return res.status(404).json({ error: 'Preset not found' });
+  }
+  
+  const clash = name && presetStore.findByName(name);
+  if (clash && clash.id !== preset.id) {
+    return res.status(409).json({ error: `A preset named "${name}" already exists` });
+  }
+  
+  res.json(presetStore.update(preset.id, { name: name || undefined, options }));
+});
+
+app.delete('/api/presets/:presetId', (req, res) => {
+  if (!presetStore.remove(req.params.presetId)) {
+    return res.status(404).json({ error: 'Preset not found' });
+  }
+  res.json({ success: true });
+});
+
+// Make a preset the one applied on load
+app.post('/api/presets/:presetId/default', (req, res) => {
+  if (!presetStore.get(req.params.presetId)) {
+    return res.status(404).json({ error: 'Preset not found' });
+  }
+  presetStore.setDefault(req.params.presetId);
+  res.json({ success: true, defaultPresetId: req.params.presetId });
+});
+
+// Stop applying a preset on load
+app.delete('/api/presets/:presetId/default', (req, res) => {
+  const preset = presetStore.get(req.params.presetId);
+  if (!preset) {
+    return res.status(404).json({ error: 'Preset not found' });
+  }
+  if (preset.isDefault) {
+    presetStore.setDefault(null);
+  }
+  res.json({ success: true, defaultPresetId: null });
+});
+
+// Parse a script into cues without rendering, for the timeline editor. With the finished upload
+// of the video (`uploadId`), cues are timed from its audio when the timing mode asks for it, since
+// a render of edited cues keeps their timings as they are.
+app.post('/api/parse-script', async (req, res) => {
+  const { script, uploadId, ...options } = req.body || {};
+  
+  if (typeof script !== 'string' || !script.trim()) {
+    return res.status(400).json({ error: 'Script content is required' });
+  }
+  
+  // Stop FFmpeg if the client gives up on the request
+  const controller = new AbortController();
+  res.on('close', () => controller.abort());
+  
+  try {
+    const processOptions = normalizeOptions(options);
+    const subtitles = parseScript(script, processOptions);
+    
+    let timingMode = 'estimate';
+    const videoPath = uploadId ? uploadStore.getFilePath(uploadId) : null;
+    if (videoPath && subtitles.length > 0 && !hasInlineTimings(script)) {
+      const videoInfo = await probeVideo(videoPath, controller.signal);
+      timingMode = await applyAudioTiming(subtitles, videoPath, videoInfo.format.duration, processOptions, { signal: controller.signal });
+    }
+    
+    res.json({ success: true, subtitles, timingMode });
+  } catch (error) {
+    if (controller.signal.aborted) return;
+    console.error('Error parsing script:', error);
+    res.status(500).json({ error: 'Failed to parse script', details: error.message });
+  }
+});
+
+// Preview frames show the caption as a cue that began PREVIEW_CUE_LEAD seconds before the frame,
+// so entrance animations and typewriter reveals have finished and karaoke is part way through
+const PREVIEW_CUE_LEAD = 3;
+const PREVIEW_CUE_TAIL = 1;
+const PREVIEW_MAX_WIDTH = 1280;
+const PREVIEW_SAMPLE_TEXT = 'Your caption appears here';
+
+// Render one frame of an uploaded video with a caption in the given style, for the live preview
+// in the customize step. Responds with a JPEG.
+app.post('/api/preview/frame', async (req, res) => {
+  const { uploadId, time, text, ...options } = req.body || {};
+
+  const upload = uploadStore.get(uploadId);
+  if (!upload) {
+    return res.status(404).json({ error: 'Upload not found' });
+  }
+  const videoPath = uploadStore.getFilePath(uploadId);
+  if (!videoPath) {
+    return res.status(409).json({ error: 'The video is still uploading' });
+  }
+
+  // A newer preview replaces this one when the client drops the request; stop FFmpeg then
+  const controller = new AbortController();
+  res.on('close', () => controller.abort());
+
+  const assPath = path.join(tempDir, `preview-frame-${Date.now()}-${Math.round(Math.random() * 1E6)}.ass`);
+
+  try {
+    const processOptions = normalizeOptions(options);
+    const videoInfo = await probeVideo(videoPath, controller.signal);
+    const sourceFrame = { width: videoInfo.streams[0].width, height: videoInfo.streams[0].height };
+    const { filters: frameFilters, frame } = processOptions.outputMode !== 'soft'
+      ? getFrameFilters(sourceFrame, processOptions)
+      : { filters: [], frame: sourceFrame };
+    const frameTime = clampNumber(time, 0, Math.max(0, videoInfo.format.duration - 0.1), 0);
+
+    // Wrapped like a real render; the frame shows the first part of a caption that overflows
+    const captionText = typeof text === 'string' && text.trim() ? text.trim().slice(0, 500) : PREVIEW_SAMPLE_TEXT;
+    const maxLineChars = processOptions.maxLineChars || getDefaultLineChars({ ...frame, style: processOptions });
+    const [cue] = wrapCues([{ id: 1, text: captionText, start: 0, end: 1 }], { maxLineChars, maxLines: processOptions.maxLines });
+    fs.writeFileSync(assPath, generateASS([{ ...cue, start: 0, end: PREVIEW_CUE_LEAD + PREVIEW_CUE_TAIL }], processOptions, frame));
+
+    // Seeking restarts timestamps at 0; shifting them puts the frame PREVIEW_CUE_LEAD into the cue
+    const filters = [
+      ...frameFilters,
+      `setpts=PTS+${PREVIEW_CUE_LEAD}/TB`,
+      `subtitles='${escapeFilterPath(assPath)}':fontsdir='${escapeFilterPath(fontsDir)}'`,
+      `scale='min(iw,${PREVIEW_MAX_WIDTH})':-2`
+    ];
+
+    const image = await new Promise((resolve, reject) => {
+      const ffmpegArgs = ['-ss', frameTime.toString(), '-i', videoPath, '-frames:v', '1', '-vf', filters.join(','), '-q:v', '4', '-f', 'image2pipe', '-c:v', 'mjpeg', 'pipe:1'];
+      const ffmpegProcess = spawn(ffmpegPath, ffmpegArgs, { stdio: ['pipe', 'pipe', 'pipe'], signal: controller.signal });
+
+      const chunks = [];
+      let stderrOutput = '';
+      ffmpegProcess.stdout.on('data', (data) => chunks.push(data));
+      ffmpegProcess.stderr.on('data', (data) => { stderrOutput += data.toString(); });
+
+      ffmpegProcess.on('close', (code) => {
+        if (code !== 0 || chunks.length === 0) {
+          return reject(new Error('Failed to render preview frame: ' + stderrOutput.slice(-500)));
+        }
+        resolve(Buffer.concat(chunks));
+      });
+
+      ffmpegProcess.on('error', reject);
+    });
+
+    res.type('image/jpeg').set('Cache-Control', 'no-store').send(image);
+  } catch (error) {
+    if (controller.signal.aborted) return;
+    console.error('Error rendering preview frame:', error);
+    res.status(500).json({ error: 'Failed to render preview frame', details: error.message });
+  } finally {
+    await safeDeleteFile(assPath);
+  }
+});
 
-// Helper function to convert hex color to BGR for FFmpeg
-function hexToBGR(hex) {
-  // Remove # if present
-  hex = hex.replace('#', '');
-  
-  // Parse RGB values
-  const r = parseInt(hex.substr(0, 2), 16);
-  const g = parseInt(hex.substr(2, 2), 16);
-  const b = parseInt(hex.substr(4, 2), 16);
-  
-  // Convert to BGR format for FFmpeg (format: &HBBGGRR&)
-  return `&H${b.toString(16).padStart(2, '0').toUpperCase()}${g.toString(16).padStart(2, '0').toUpperCase()}${r.toString(16).padStart(2, '0').toUpperCase()}&`;
+// Helper function to describe an upload to the client
+function describeUpload(upload) {
+  return {
+    uploadId: upload.id,
+    fileName: upload.fileName,
+    kind: upload.kind,
+    size: upload.size,
+    offset: upload.offset,
+    complete: upload.complete,
+    chunkSize: UPLOAD_CHUNK_SIZE
+  };
 }
 
-// Helper function to get alignment value for FFmpeg
-function getAlignment(position) {
-  switch(position) {
-    case 'top': return '8'; // Top center
-    case 'center': return '5'; // Middle center
-    case 'bottom': 
-    default: return '2'; // Bottom center
+// Start a resumable upload; the bytes follow in PATCH requests
+app.post('/api/uploads', (req, res) => {
+  const { fileName, mimeType = 'application/octet-stream', kind } = req.body || {};
+  const size = Number(req.body?.size);
+
+  if (typeof fileName !== 'string' || !fileName.trim()) {
+    return res.status(400).json({ error: 'fileName is required' });
+  }
+  if (!UPLOAD_KINDS.includes(kind)) {
+    return res.status(400).json({ error: `kind must be one of: ${UPLOAD_KINDS.join(', ')}` });
+  }
+  if (!Number.isInteger(size) || size <= 0) {
+    return res.status(400).json({ error: 'size must be a positive number of bytes' });
+  }
+  if (size > uploadStore.maxSize) {
+    return res.status(413).json({ error: `File is larger than the ${MAX_UPLOAD_SIZE_MB}MB upload limit` });
   }
-}
 
-// Helper function to safely delete file with retry
-function safeDeleteFile(filePath, maxRetries = 3, delay = 1000) {
-  return new Promise((resolve) => {
-    let attempts = 0;
-    
-    const tryDelete = () => {
-      attempts++;
-      if (!fs.existsSync(filePath)) {
-        resolve();
-        return;
-      }
-      
-      fs.unlink(filePath, (err) => {
-        if (!err) {
-          resolve();
-        } else if (attempts < maxRetries) {
-          console.log(`Retry ${attempts}/${maxRetries} deleting ${filePath}`);
-          setTimeout(tryDelete, delay);
-        } else {
-          console.error(`Failed to delete ${filePath} after ${maxRetries} attempts:`, err.message);
-          resolve(); // Don't fail the entire process
-        }
-      });
-    };
-    
-    tryDelete();
-  });
-}
+  const file = { originalname: fileName, mimetype: mimeType };
+  if (!(kind === 'video' ? isVideoFile(file) : isScriptFile(file))) {
+    return res.status(400).json({ error: `${fileName} is not a supported ${kind} file` });
+  }
 
-// Helper function to parse FFmpeg progress output
-function parseFFmpegProgress(line) {
-  const timeMatch = line.match(/time=(\d+):(\d+):(\d+\.\d+)/);
-  if (timeMatch) {
-    const hours = parseInt(timeMatch[1], 10);
-    const minutes = parseInt(timeMatch[2], 10);
-    const seconds = parseFloat(timeMatch[3]);
-    return hours * 3600 + minutes * 60 + seconds;
+  const upload = uploadStore.create({ fileName, size, mimeType, kind });
+  console.log(`Started upload ${upload.id}: ${upload.fileName} (${(size / (1024 * 1024)).toFixed(1)}MB)`);
+  res.status(201).json(describeUpload(upload));
+});
+
+// How much of an upload the server has, so an interrupted client knows where to resume
+app.get('/api/uploads/:uploadId', (req, res) => {
+  const upload = uploadStore.get(req.params.uploadId);
+  if (!upload) {
+    return res.status(404).json({ error: 'Upload not found' });
   }
-  return null;
-}
+  res.json(describeUpload(upload));
+});
 
-// Progress tracking endpoint
-app.get('/api/progress/:jobId', (req, res) => {
-  const jobId = req.params.jobId;
-  const progress = global.processingProgress?.[jobId] || { progress: 0, status: 'Starting...' };
-  console.log(`Progress request for job ${jobId}:`, progress);
-  res.json(progress);
+// Append a chunk; the Upload-Offset header must match the bytes received so far
+app.patch('/api/uploads/:uploadId', async (req, res) => {
+  const upload = uploadStore.get(req.params.uploadId);
+  if (!upload) {
+    return res.status(404).json({ error: 'Upload not found' });
+  }
+  if (upload.complete) {
+    return res.status(409).json({ error: 'Upload is already finalized', offset: upload.offset });
+  }
+  if (uploadStore.isBusy(upload.id)) {
+    return res.status(409).json({ error: 'Another chunk of this upload is still being written', offset: upload.offset });
+  }
+
+  const offset = parseInt(req.get('Upload-Offset'), 10);
+  if (offset !== upload.offset) {
+    return res.status(409).json({ error: 'Upload-Offset does not match the bytes received', offset: upload.offset });
+  }
+
+  try {
+    await uploadStore.append(upload.id, req);
+    res.json(describeUpload(upload));
+  } catch (error) {
+    console.error(`Upload ${upload.id} chunk failed at ${upload.offset} bytes:`, error.message);
+    if (!res.headersSent) {
+      res.status(400).json({ error: 'Failed to store chunk', details: error.message, offset: upload.offset });
+    }
+  }
 });
 
-// Results endpoint
-app.get('/api/result/:jobId', (req, res) => {
-  const jobId = req.params.jobId;
-  const result = global.processingResults?.[jobId];
-  
-  if (!result) {
-    return res.status(404).json({ error: 'Result not found' });
+// Finish an upload once every byte has arrived; jobs reference it by id from then on
+app.post('/api/uploads/:uploadId/complete', (req, res) => {
+  const upload = uploadStore.get(req.params.uploadId);
+  if (!upload) {
+    return res.status(404).json({ error: 'Upload not found' });
   }
-  
-  res.json(result);
+  if (upload.offset < upload.size) {
+    return res.status(409).json({ error: `Upload is incomplete: ${upload.offset} of ${upload.size} bytes received`, offset: upload.offset });
+  }
+
+  res.json(describeUpload(uploadStore.finalize(upload.id)));
 });
 
-// Test progress endpoint for debugging
-app.post('/api/test-progress/:jobId', (req, res) => {
-  const jobId = req.params.jobId;
-  const { progress, status } = req.body;
-  
-  if (!global.processingProgress) {
-    global.processingProgress = {};
+// Abandon an upload and delete what was received
+app.delete('/api/uploads/:uploadId', (req, res) => {
+  if (!uploadStore.remove(req.params.uploadId)) {
+    return res.status(404).json({ error: 'Upload not found' });
   }
-  
-  global.processingProgress[jobId] = { progress, status };
-  console.log(`Test progress set for job ${jobId}:`, { progress, status });
-  
-  res.json({ success: true, jobId, progress, status });
+  res.json({ success: true });
 });
 
 // Main captioning endpoint
 app.post('/api/caption', upload.any(), async (req, res) => {
-  const jobId = Date.now().toString();
+  const jobId = crypto.randomUUID();
   console.log(`Starting new job with ID: ${jobId}`);
   
-  // Initialize progress tracking immediately
-  if (!global.processingProgress) {
-    global.processingProgress = {};
-  }
+  const updateProgress = createProgressUpdater(jobId);
   
-  const updateProgress = (progress, status) => {
-    global.processingProgress[jobId] = { progress, status };
-    console.log(`Job ${jobId} - Progress ${progress}%: ${status}`);
+  // Every file the request brought; a request that fails deletes them. Chunked uploads join only
+  // once the request is valid, so a rejected request leaves them in place for a retry.
+  let files = req.files || [];
+  const rejectRequest = (error) => {
+    files.forEach(file => safeDeleteFile(file.path));
+    return res.status(400).json({ error });
   };
   
   try {
     updateProgress(5, 'Validating files...');
     
-    const files = req.files;
-    const processingMode = req.body.processingMode || 'single';
+    // A preset supplies the caption options; option fields sent alongside override it
+    const jobOptions = applyPreset(req.body);
+    if (!jobOptions) {
+      return rejectRequest('Preset not found');
+    }
+    
+    // Files come in the multipart body or as finished chunked uploads referenced by id
+    let uploadRefs;
+    try {
+      uploadRefs = checkUploads(req.body.uploads);
+    } catch (error) {
+      return rejectRequest(error.message);
+    }
+    const fieldnames = new Set([...files.map(f => f.fieldname), ...uploadRefs.map(([fieldname]) => fieldname)]);
+    const processingMode = jobOptions.processingMode || 'single';
+    const batchCount = parseInt(jobOptions.batchCount);
+    
+    if (processingMode === 'single') {
+      if ((!fieldnames.has('script') && !jobOptions.cues) || !fieldnames.has('video')) {
+        return rejectRequest('Both script and video files are required');
+      }
+    } else {
+      for (let i = 0; i < batchCount; i++) {
+        if (!fieldnames.has(`script_${i}`) || !fieldnames.has(`video_${i}`)) {
+          return rejectRequest(`Missing script or video file for pair ${i + 1}`);
+        }
+      }
+    }
+    
+    files = [...files, ...claimUploads(uploadRefs)];
     
     if (processingMode === 'single') {
       const script = files.find(f => f.fieldname === 'script');
       const video = files.find(f => f.fieldname === 'video');
       
-      if (!script || !video) {
-        return res.status(400).json({ error: 'Both script and video files are required' });
-      }
+      jobStore.create(jobId, {
+        type: 'single',
+        options: normalizeOptions(jobOptions),
+        inputs: [{ scriptName: script ? script.originalname : 'Edited cues', videoName: video.originalname }]
+      });
       
       // Send immediate response with job ID
       res.json({
@@ -304,25 +1558,23 @@ app.post('/api/caption', upload.any(), async (req, res) => {
       });
       
       // Continue processing in background
-      processVideoInBackground(jobId, script, video, req.body, updateProgress);
+      processVideoInBackground(jobId, script, video, jobOptions, updateProgress);
     } else {
       // Batch processing
-      const batchCount = parseInt(req.body.batchCount);
       const scripts = [];
       const videos = [];
       
       for (let i = 0; i < batchCount; i++) {
-        const script = files.find(f => f.fieldname === `script_${i}`);
-        const video = files.find(f => f.fieldname === `video_${i}`);
-        
-        if (!script || !video) {
-          return res.status(400).json({ error: `Missing script or video file for pair ${i + 1}` });
-        }
-        
-        scripts.push(script);
-        videos.push(video);
+        scripts.push(files.find(f => f.fieldname === `script_${i}`));
+        videos.push(files.find(f => f.fieldname === `video_${i}`));
       }
       
+      jobStore.create(jobId, {
+        type: 'batch',
+        options: normalizeOptions(jobOptions),
+        inputs: scripts.map((script, i) => ({ scriptName: script.originalname, videoName: videos[i].originalname }))
+      });
+      
       // Send immediate response with job ID
       res.json({
         success: true,
@@ -331,14 +1583,22 @@ app.post('/api/caption', upload.any(), async (req, res) => {
       });
       
       // Continue batch processing in background
-      processBatchInBackground(jobId, scripts, videos, req.body, updateProgress);
+      processBatchInBackground(jobId, scripts, videos, jobOptions, updateProgress);
     }
 
   } catch (error) {
     console.error('Error starting video processing:', error);
     
-    // Clean up progress tracking
-    delete global.processingProgress[jobId];
+    // Nothing will process the files once starting failed
+    if (!res.headersSent) {
+      files.forEach(file => safeDeleteFile(file.path));
+    }
+    
+    jobStore.complete(jobId, {
+      success: false,
+      error: 'Failed to start video processing',
+      details: error.message
+    });
     
     if (!res.headersSent) {
       res.status(500).json({ 
@@ -350,337 +1610,249 @@ app.post('/api/caption', upload.any(), async (req, res) => {
 
   // Batch processing function
   async function processBatchInBackground(jobId, scripts, videos, options, updateProgress) {
-    const results = [];
     const totalPairs = scripts.length;
+    const controller = new AbortController();
+    jobControllers[jobId] = controller;
     
     try {
-      updateProgress(5, `Starting batch processing of ${totalPairs} video pairs...`);
+      updateProgress(5, `Queueing ${totalPairs} video pairs...`);
       
-      for (let i = 0; i < totalPairs; i++) {
-        const pairProgress = (i / totalPairs) * 90; // Reserve 10% for final steps
-        updateProgress(Math.round(5 + pairProgress), `Processing pair ${i + 1}/${totalPairs}...`);
-        
+      // Pairs go to the render queue together and run in parallel up to the worker limit
+      const pairProgress = new Array(totalPairs).fill(0);
+      const priority = parsePriority(options.priority);
+      
+      const results = await Promise.all(scripts.map(async (script, i) => {
         try {
-          // Process each pair individually
-          const result = await processSingleVideo(scripts[i], videos[i], options, (progress, status) => {
-            const adjustedProgress = 5 + pairProgress + (progress / totalPairs * 0.9);
-            updateProgress(Math.round(adjustedProgress), `Pair ${i + 1}/${totalPairs}: ${status}`);
-          });
+          const result = await renderQueue.enqueue(() => processWithRenditions(script, videos[i], options, (progress, status) => {
+            pairProgress[i] = progress;
+            const overallProgress = 5 + pairProgress.reduce((total, value) => total + value, 0) / totalPairs * 0.9; // Reserve 5% for final steps
+            jobStore.publish(jobId, 'pair', { index: i, videoName: videos[i].originalname, progress, status });
+            updateProgress(Math.round(overallProgress), `Pair ${i + 1}/${totalPairs}: ${status}`);
+          }, { signal: controller.signal }), { jobId, priority });
           
-          results.push({
+          return {
             index: i,
-            scriptName: scripts[i].originalname,
+            scriptName: script.originalname,
             videoName: videos[i].originalname,
             ...result
-          });
+          };
         } catch (error) {
+          jobStore.publish(jobId, 'pair', {
+            index: i,
+            videoName: videos[i].originalname,
+            progress: pairProgress[i],
+            status: controller.signal.aborted ? 'Cancelled' : 'Failed',
+            error: error.message
+          });
+          
+          if (controller.signal.aborted) {
+            // Pairs still waiting in the queue never got to clean up their uploads
+            await Promise.all([safeDeleteFile(script.path), safeDeleteFile(videos[i].path)]);
+            return {
+              index: i,
+              scriptName: script.originalname,
+              videoName: videos[i].originalname,
+              success: false,
+              cancelled: true,
+              error: 'Cancelled'
+            };
+          }
+          
           console.error(`Error processing pair ${i + 1}:`, error);
-          results.push({
+          return {
             index: i,
-            scriptName: scripts[i].originalname,
+            scriptName: script.originalname,
             videoName: videos[i].originalname,
             success: false,
             error: error.message
-          });
+          };
         }
-      }
+      }));
       
-      updateProgress(100, 'Batch processing complete!');
+      const cancelled = controller.signal.aborted;
+      updateProgress(100, cancelled ? 'Batch cancelled' : 'Batch processing complete!');
       
-      // Store batch results
-      global.processingResults[jobId] = {
-        success: true,
+      // Store batch results; a cancelled batch keeps the pairs that finished
+      jobStore.complete(jobId, {
+        success: !cancelled,
+        ...(cancelled ? { cancelled: true, error: 'Job cancelled' } : {}),
         jobId: jobId,
         batchMode: true,
         totalPairs: totalPairs,
         results: results,
         successCount: results.filter(r => r.success).length,
         failureCount: results.filter(r => !r.success).length
-      };
+      });
       
     } catch (error) {
       console.error('Error in batch processing:', error);
-      global.processingResults[jobId] = {
+      jobStore.complete(jobId, {
         success: false,
         batchMode: true,
         error: 'Batch processing failed',
         details: error.message
-      };
+      });
+    } finally {
+      delete jobControllers[jobId];
     }
-    
-    // Clean up progress tracking after delay
-    setTimeout(() => {
-      delete global.processingProgress[jobId];
-      delete global.processingResults[jobId];
-    }, 300000);
-  }
-
-  // Extract single video processing logic
-  async function processSingleVideo(scriptFile, videoFile, options, updateProgress) {
-    let scriptPath = scriptFile.path;
-    let videoPath = videoFile.path;
-    let srtPath = null;
+  }
+
+  // Background processing function
+  async function processVideoInBackground(jobId, scriptFile, videoFile, options, updateProgress) {
+    const controller = new AbortController();
+    jobControllers[jobId] = controller;
+    retainJobSource(jobId, videoFile, options);
     
     try {
-      updateProgress(10, 'Parsing script...');
-
-      // Parse options from request body with validation
-      const processOptions = {
-        baseDuration: Math.max(0.1, Math.min(10, parseFloat(options.baseDuration) || 3)),
-        wordDuration: Math.max(0.1, Math.min(2, parseFloat(options.wordDuration) || 0.3)),
-        splitMode: options.splitMode || 'line',
-        fontColor: options.fontColor || '#EC4899',
-        fontWeight: options.fontWeight || 'bold',
-        fontSize: Math.max(12, Math.min(48, parseInt(options.fontSize) || 24)),
-        position: ['top', 'center', 'bottom'].includes(options.position) ? options.position : 'bottom'
-      };
-
-      // Read and parse script
-      const scriptContent = fs.readFileSync(scriptPath, 'utf8');
-      const subtitles = parseScript(scriptContent, processOptions);
-      
-      if (subtitles.length === 0) {
-        throw new Error('No valid subtitles found in script');
-      }
-      
-      updateProgress(20, 'Analyzing video...');
-      
-      // Get video duration and dimensions using the fixed ffprobe logic
-      const videoInfo = await new Promise((resolve, reject) => {
-        let ffprobePath = 'ffprobe';
-        try {
-          const result = execSync('which ffprobe || where ffprobe', { encoding: 'utf8' });
-          if (result.trim()) {
-            ffprobePath = result.trim().split('\n')[0];
-          }
-        } catch (error) {
-          console.log('⚠️  FFprobe not found in system PATH.');
-        }
-        if (process.env.FFPROBE_PATH) {
-          ffprobePath = process.env.FFPROBE_PATH;
-        }
-        
-        const ffprobeArgs = ['-v', 'quiet', '-print_format', 'json', '-show_format', '-show_streams', videoPath];
-        const ffprobe = spawn(ffprobePath, ffprobeArgs, { stdio: ['pipe', 'pipe', 'pipe'] });
-        
-        let output = '';
-        let errorOutput = '';
-        
-        ffprobe.stdout.on('data', (data) => { output += data.toString(); });
-        ffprobe.stderr.on('data', (data) => { errorOutput += data.toString(); });
-        
-        ffprobe.on('close', (code) => {
-          if (code !== 0) {
-            return reject(new Error('FFprobe failed: ' + errorOutput));
-          }
-          
-          try {
-            const info = JSON.parse(output);
-            const videoStream = info.streams.find(stream => stream.codec_type === 'video');
-            if (!videoStream) {
-              return reject(new Error('No video stream found'));
-            }
-            
-            const duration = parseFloat(info.format.duration);
-            const width = parseInt(videoStream.width);
-            const height = parseInt(videoStream.height);
-            
-            if (!duration || !width || !height) {
-              return reject(new Error('Could not extract video properties'));
-            }
-            
-            resolve({ format: { duration }, streams: [{ width, height }] });
-          } catch (parseError) {
-            reject(new Error('Failed to parse video info: ' + parseError.message));
-          }
+      const result = await renderQueue.enqueue(
+        () => processWithRenditions(scriptFile, videoFile, options, updateProgress, { keepSource: true, signal: controller.signal }),
+        { jobId, priority: parsePriority(options.priority) }
+      );
+      jobStore.complete(jobId, { ...result, sourceJobId: jobId });
+    } catch (error) {
+      // A cancelled or failed job cannot be re-rendered, so its uploads go right away
+      await Promise.all([safeDeleteFile(scriptFile?.path), releaseJobSource(jobId)]);
+      if (controller.signal.aborted) {
+        jobStore.complete(jobId, { success: false, cancelled: true, error: 'Job cancelled' });
+      } else {
+        console.error('Error processing video in background:', error);
+        jobStore.complete(jobId, {
+          success: false,
+          error: 'Video processing failed',
+          details: error.message
         });
-        
-        ffprobe.on('error', reject);
-      });
-
-      const videoDuration = videoInfo.format.duration;
-      const videoWidth = videoInfo.streams[0].width;
-      const videoHeight = videoInfo.streams[0].height;
-      const subtitlesDuration = subtitles[subtitles.length - 1].end;
-      
-      // *** KEY CHANGE: Only process the overlapping duration ***
-      const processingDuration = Math.min(videoDuration, subtitlesDuration);
-      
-      console.log(`Video: ${videoWidth}x${videoHeight}, Duration: ${videoDuration}s, Subtitles: ${subtitlesDuration}s, Processing: ${processingDuration}s`);
-      
-      updateProgress(30, 'Generating subtitles...');
-      
-      // Filter subtitles to only include those within processing duration
-      const filteredSubtitles = subtitles.filter(sub => sub.start < processingDuration);
-      
-      // Adjust end times of subtitles that extend beyond processing duration
-      filteredSubtitles.forEach(sub => {
-        if (sub.end > processingDuration) {
-          sub.end = processingDuration;
-          sub.duration = sub.end - sub.start;
-        }
-      });
-      
-      // Generate SRT file
-      const srtContent = generateSRT(filteredSubtitles);
-      srtPath = path.join(subtitlesDir, `script-${Date.now()}.srt`);
-      fs.writeFileSync(srtPath, srtContent);
-
-      updateProgress(40, 'Creating preview...');
-
-      // Generate output filename
-      const outputFilename = `captioned-${Date.now()}.mp4`;
-      const outputPath = path.join(processedDir, outputFilename);
-      
-      if (!fs.existsSync(path.dirname(outputPath))) {
-        fs.mkdirSync(path.dirname(outputPath), { recursive: true });
       }
+    } finally {
+      delete jobControllers[jobId];
+    }
+  }
+});
 
-      // Generate preview GIF
-      const previewFilename = `preview-${Date.now()}.gif`;
-      const previewPath = path.join(tempDir, previewFilename);
-
-      await new Promise((resolve, reject) => {
-        const palettePath = path.join(tempDir, `palette-${Date.now()}.png`);
-        const previewDuration = Math.min(3, processingDuration);
-        
-        const paletteArgs = ['-y', '-t', previewDuration.toString(), '-i', videoPath, '-vf', 'fps=10,scale=320:-1:flags=lanczos,palettegen', palettePath];
-        const paletteProcess = spawn(ffmpegPath, paletteArgs, { stdio: ['pipe', 'pipe', 'pipe'] });
-        
-        paletteProcess.on('close', (code) => {
-          if (code !== 0) {
-            return reject(new Error('Failed to generate palette'));
-          }
-          
-          const gifArgs = ['-y', '-t', previewDuration.toString(), '-i', videoPath, '-i', palettePath, '-filter_complex', 'fps=10,scale=320:-1:flags=lanczos[x];[x][1:v]paletteuse', previewPath];
-          const gifProcess = spawn(ffmpegPath, gifArgs, { stdio: ['pipe', 'pipe', 'pipe'] });
-          
-          gifProcess.on('close', async (code) => {
-            await safeDeleteFile(palettePath);
-            if (code !== 0) {
-              return reject(new Error('Failed to create preview'));
-            }
-            resolve();
-          });
-          
-          gifProcess.on('error', reject);
-        });
-        
-        paletteProcess.on('error', reject);
+// Re-render a single job with an edited cue list, reusing its uploaded source video
+app.post('/api/rerender/:jobId', async (req, res) => {
+  const sourceJobId = req.params.jobId;
+  const source = jobStore.get(sourceJobId)?.source;
+  const { cues, ...overrides } = req.body || {};
+  
+  if (!source || !fs.existsSync(source.path)) {
+    return res.status(404).json({ error: 'Source video has expired. Please upload it again.' });
+  }
+  
+  if (!Array.isArray(cues) || cues.length === 0) {
+    return res.status(400).json({ error: 'An edited cue list is required' });
+  }
+  
+  const jobId = crypto.randomUUID();
+  console.log(`Starting re-render job ${jobId} from job ${sourceJobId}`);
+  
+  jobStore.create(jobId, {
+    type: 'rerender',
+    options: normalizeOptions({ ...source.options, ...overrides }),
+    inputs: [{ scriptName: 'Edited cues', videoName: source.originalname }]
+  });
+  
+  const updateProgress = createProgressUpdater(jobId);
+  updateProgress(5, 'Preparing re-render...');
+  
+  res.json({
+    success: true,
+    jobId: jobId,
+    message: 'Re-render started'
+  });
+  
+  // Later re-renders start from the latest options; re-retaining also restarts the source job's retention
+  const options = { ...source.options, ...overrides, cues };
+  const videoFile = { path: source.path, originalname: source.originalname };
+  retainJobSource(sourceJobId, videoFile, options);
+  sourceRenders[sourceJobId] = (sourceRenders[sourceJobId] || 0) + 1;
+  
+  const controller = new AbortController();
+  jobControllers[jobId] = controller;
+  
+  try {
+    const result = await renderQueue.enqueue(
+      () => processWithRenditions(null, videoFile, options, updateProgress, { keepSource: true, signal: controller.signal }),
+      { jobId, priority: parsePriority(options.priority) }
+    );
+    jobStore.complete(jobId, { ...result, sourceJobId });
+  } catch (error) {
+    if (controller.signal.aborted) {
+      // The source belongs to the original job and stays available for another try
+      jobStore.complete(jobId, { success: false, cancelled: true, error: 'Job cancelled' });
+    } else {
+      console.error('Error re-rendering video:', error);
+      jobStore.complete(jobId, {
+        success: false,
+        error: 'Video re-render failed',
+        details: error.message
       });
+    }
+  } finally {
+    delete jobControllers[jobId];
+    if (--sourceRenders[sourceJobId] === 0) {
+      delete sourceRenders[sourceJobId];
+    }
+  }
+});
 
-      updateProgress(55, 'Processing video with captions...');
-
-      // Build subtitle styling
-      const bgrColor = hexToBGR(processOptions.fontColor);
-      const alignment = getAlignment(processOptions.position);
-      const boldValue = processOptions.fontWeight === 'bold' ? '1' : '0';
-      const srtPathEscaped = srtPath.replace(/\\/g, '/').replace(/:/g, '\\:');
-      const subtitleStyle = `FontName=Arial,FontSize=${processOptions.fontSize},PrimaryColour=${bgrColor},Bold=${boldValue},Alignment=${alignment}`;
-
-      // Process video with captions - ONLY for the overlapping duration
-      await new Promise((resolve, reject) => {
-        const ffmpegArgs = [
-          '-y',
-          '-i', videoPath,
-          '-t', processingDuration.toString(), // *** KEY: Limit to overlapping duration ***
-          '-vf', `subtitles='${srtPathEscaped}':force_style='${subtitleStyle}'`,
-          '-c:v', 'libx264',
-          '-pix_fmt', 'yuv420p',
-          '-preset', 'medium',
-          '-crf', '23',
-          '-c:a', 'copy',
-          '-progress', 'pipe:2',
-          outputPath
-        ];
-        
-        console.log('Processing with overlap duration:', processingDuration, 'seconds');
-        console.log('FFmpeg args:', ffmpegArgs.join(' '));
-        
-        const ffmpegProcess = spawn(ffmpegPath, ffmpegArgs, { stdio: ['pipe', 'pipe', 'pipe'] });
-        
-        let stderrOutput = '';
-        
-        ffmpegProcess.stderr.on('data', (data) => {
-          const output = data.toString();
-          stderrOutput += output;
-          
-          const lines = output.split('\n');
-          for (const line of lines) {
-            const currentTime = parseFFmpegProgress(line);
-            if (currentTime !== null) {
-              const ffmpegProgress = Math.min(1, currentTime / processingDuration);
-              const progressPercent = Math.min(95, 55 + (ffmpegProgress * 40));
-              updateProgress(Math.round(progressPercent), 'Processing video with captions...');
-            }
-          }
-        });
-        
-        ffmpegProcess.on('close', async (code) => {
-          if (code !== 0) {
-            console.error('FFmpeg error:', stderrOutput);
-            return reject(new Error('Failed to process video: ' + stderrOutput));
-          }
-          
-          updateProgress(98, 'Cleaning up...');
-          
-          await Promise.all([
-            safeDeleteFile(scriptPath),
-            safeDeleteFile(videoPath),
-            safeDeleteFile(srtPath)
-          ]);
-          
-          resolve();
-        });
-        
-        ffmpegProcess.on('error', reject);
-      });
+// Platform export profiles a job can ask for renditions of (`exportProfiles` on /api/caption)
+app.get('/api/export-profiles', (req, res) => {
+  res.json({
+    profiles: Object.entries(EXPORT_PROFILES).map(([id, profile]) => ({
+      id,
+      label: profile.label,
+      description: profile.description,
+      width: profile.options.outputWidth,
+      height: profile.options.outputHeight,
+      maxDuration: profile.options.maxDuration
+    }))
+  });
+});
 
-      updateProgress(100, 'Complete!');
+// Output codecs this machine's FFmpeg can encode, with their containers and quality (CRF) ranges,
+// and the result preview formats it can make
+app.get('/api/encoders', (req, res) => {
+  const { codecs, detected } = listAvailableCodecs(ffmpegPath);
+  res.json({
+    codecs: codecs.map(id => ({ id, label: VIDEO_CODECS[id].label, containers: VIDEO_CODECS[id].containers, crf: VIDEO_CODECS[id].crf })),
+    containers: CONTAINERS,
+    speedPresets: SPEED_PRESETS,
+    previewFormats: listPreviewFormats(),
+    detected
+  });
+});
 
-      return {
-        success: true,
-        duration: formatDuration(processingDuration),
-        durationSeconds: processingDuration,
-        subtitlesCount: filteredSubtitles.length,
-        previewUrl: `/temp/${previewFilename}`,
-        downloadUrl: `/download/${outputFilename}`,
-        subtitles: filteredSubtitles
-      };
+// Font families for the caption font picker: installed locally plus the uploaded font library
+app.get('/api/fonts', (req, res) => {
+  res.json({ ...listInstalledFonts(), customFonts: fontLibrary.list() });
+});
 
-    } catch (error) {
-      console.error('Error processing single video:', error);
-      
-      await Promise.all([
-        safeDeleteFile(scriptPath),
-        safeDeleteFile(videoPath),
-        safeDeleteFile(srtPath)
-      ]);
-      
-      throw error;
+// Add a TTF/OTF font to the library; the file must parse as a font, not just carry the extension
+app.post('/api/fonts', (req, res) => {
+  fontUpload.single('font')(req, res, (uploadError) => {
+    if (uploadError) {
+      const status = uploadError.code === 'LIMIT_FILE_SIZE' ? 413 : 400;
+      return res.status(status).json({ error: 'Font upload failed', details: uploadError.message });
     }
-  }
-
-  // Background processing function
-  async function processVideoInBackground(jobId, scriptFile, videoFile, options, updateProgress) {
+    if (!req.file) {
+      return res.status(400).json({ error: 'A .ttf or .otf font file is required' });
+    }
+    
     try {
-      const result = await processSingleVideo(scriptFile, videoFile, options, updateProgress);
-      global.processingResults[jobId] = result;
+      const font = fontLibrary.add(req.file.buffer, req.file.originalname);
+      console.log(`🔤 Added font "${font.family}" (${font.fileName})`);
+      res.status(201).json(font);
     } catch (error) {
-      console.error('Error processing video in background:', error);
-      global.processingResults[jobId] = {
-        success: false,
-        error: 'Video processing failed',
-        details: error.message
-      };
+      res.status(400).json({ error: error.message });
     }
-    
-    // Clean up progress tracking
-    setTimeout(() => {
-      delete global.processingProgress[jobId];
-      delete global.processingResults[jobId];
-    }, 300000);
+  });
+});
+
+app.delete('/api/fonts/:fontId', (req, res) => {
+  if (!fontLibrary.remove(req.params.fontId)) {
+    return res.status(404).json({ error: 'Font not found' });
   }
+  res.json({ success: true });
 });
 
 // Health check endpoint
@@ -688,7 +1860,8 @@ app.get('/api/health', (req, res) => {
   res.json({ 
     status: 'ok', 
     timestamp: new Date().toISOString(),
-    ffmpegPath: ffmpegPath
+    ffmpegPath: ffmpegPath,
+    queue: renderQueue.stats()
   });
 });
 
@@ -713,14 +1886,38 @@ app.get('/download/:filename', (req, res) => {
   });
 });
 
+// Force download endpoint for subtitle sidecar files (SRT, VTT, ASS, JSON)
+app.get('/subtitles/:filename', (req, res) => {
+  const filename = path.basename(req.params.filename);
+  const extension = path.extname(filename).slice(1).toLowerCase();
+  const filePath = path.join(subtitlesDir, filename);
+  
+  if (!SUBTITLE_FORMATS.includes(extension) || !fs.existsSync(filePath)) {
+    return res.status(404).json({ error: 'File not found' });
+  }
+  
+  res.download(filePath, filename, (err) => {
+    if (err) {
+      console.error('Download error:', err);
+      if (!res.headersSent) {
+        res.status(500).json({ error: 'Download failed' });
+      }
+    }
+  });
+});
+
 // Serve static files for preview and temp files
 app.use('/temp', express.static(tempDir));
 
+// Uploaded fonts, so the browser can show samples in the same face
+app.use('/fonts', express.static(fontsDir));
+
 // Start server
 app.listen(PORT, () => {
   console.log(`🚀 Growloom Captioner server running on port ${PORT}`);
   console.log(`🔧 Using FFmpeg at: ${ffmpegPath}`);
   console.log(`📊 Health check: http://localhost:${PORT}/api/health`);
-  console.log(`📁 File structure: uploads/ | subtitles/ | temp/ | processed/`);
+  console.log(`📁 File structure: uploads/ | subtitles/ | temp/ | processed/ | data/ | fonts/`);
+  console.log(`⚙️  Rendering up to ${MAX_CONCURRENT_RENDERS} video(s) at once`);
   console.log(`🎬 Ready to process videos with captions!`);
 });
\ No newline at end of file
@@ -0,0 +1,293 @@
+// ===== OFFLINE SCRIPT-TO-AUDIO ALIGNMENT =====
+// Aligns script segments to the speech in a video's audio track using only
+// the local FFmpeg binary. The built-in "energy" aligner detects speech with
+// a simple energy-based voice activity detector and snaps cue boundaries to
+// the pauses between phrases. Other local aligners (e.g. a forced-alignment
+// model) can be plugged in with registerAligner() or LOCAL_ALIGNER_MODULE.
+
+import path from 'path';
+import { spawn } from 'child_process';
+import { pathToFileURL } from 'url';
+
+const SAMPLE_RATE = 16000;
+const FRAME_SECONDS = 0.01; // 10ms analysis frames
+const FRAME_BYTES = SAMPLE_RATE * FRAME_SECONDS * 2; // mono s16le
+
+const aligners = {};
+
+// Register an aligner: async ({ ffmpegPath, videoPath, texts, duration, signal }) => [{ start, end }]
+// `signal` is an AbortSignal that fires when the job is cancelled. An aligner that also times
+// words may add `words: [{ start, end }]` (one per whitespace-separated word) for karaoke captions
+export function registerAligner(name, aligner) {
+  aligners[name] = aligner;
+}
+
+// Names of the aligners currently available
+export function listAligners() {
+  return Object.keys(aligners);
+}
+
+// Extract the audio track to a 16kHz mono WAV file, for aligners that work on files
+export function extractAudio(ffmpegPath, videoPath, wavPath, { signal } = {}) {
+  return new Promise((resolve, reject) => {
+    const args = ['-y', '-i', videoPath, '-vn', '-ac', '1', '-ar', SAMPLE_RATE.toString(), '-c:a', 'pcm_s16le', wavPath];
+    const ffmpegProcess = spawn(ffmpegPath, args, { stdio: ['pipe', 'pipe', 'pipe'], signal });
+
+    let stderrOutput = '';
+    ffmpegProcess.stderr.on('data', (data) => { stderrOutput += data.toString(); });
+
+    ffmpegProcess.on('close', (code) => {
+      if (code !== 0) {
+        return reject(new Error('Failed to extract audio: ' + stderrOutput.slice(-500)));
+      }
+      resolve(wavPath);
+    });
+
+    ffmpegProcess.on('error', reject);
+  });
+}
+
+// Stream the audio track through FFmpeg and compute per-frame loudness in dB
+export function computeEnergyFrames(ffmpegPath, videoPath, { signal } = {}) {
+  return new Promise((resolve, reject) => {
+    const args = ['-i', videoPath, '-vn', '-ac', '1', '-ar', SAMPLE_RATE.toString(), '-f', 's16le', '-acodec', 'pcm_s16le', 'pipe:1'];
+    const ffmpegProcess = spawn(ffmpegPath, args, { stdio: ['pipe', 'pipe', 'pipe'], signal });
+
+    const frames = [];
+    let leftover = Buffer.alloc(0);
+    let stderrOutput = '';
+
+    ffmpegProcess.stdout.on('data', (data) => {
+      const buffer = leftover.length ? Buffer.concat([leftover, data]) : data;
+      let offset = 0;
+
+      while (offset + FRAME_BYTES <= buffer.length) {
+        let sumSquares = 0;
+        for (let i = offset; i < offset + FRAME_BYTES; i += 2) {
+          const sample = buffer.readInt16LE(i) / 32768;
+          sumSquares += sample * sample;
+        }
+        const rms = Math.sqrt(sumSquares / (FRAME_BYTES / 2));
+        frames.push(20 * Math.log10(rms + 1e-10));
+        offset += FRAME_BYTES;
+      }
+
+      leftover = buffer.subarray(offset);
+    });
+
+    ffmpegProcess.stderr.on('data', (data) => { stderrOutput += data.toString(); });
+
+    ffmpegProcess.on('close', (code) => {
+      if (code !== 0) {
+        return reject(new Error('Failed to read audio track: ' + stderrOutput.slice(-500)));
+      }
+      if (frames.length === 0) {
+        return reject(new Error('Video has no audio track to align against'));
+      }
+      resolve(frames);
+    });
+
+    ffmpegProcess.on('error', reject);
+  });
+}
+
+// Helper function to read a percentile from a sorted array
+function percentile(sorted, fraction) {
+  const index = Math.min(sorted.length - 1, Math.max(0, Math.floor(sorted.length * fraction)));
+  return sorted[index];
+}
+
+// Energy-based voice activity detection: returns speech segments in seconds
+export function detectSpeechSegments(frames, options = {}) {
+  const {
+    minSilence = 0.25,
+    minSpeech = 0.08
+  } = options;
+
+  const sorted = [...frames].sort((a, b) => a - b);
+  const noiseFloor = percentile(sorted, 0.1);
+  const peak = percentile(sorted, 0.95);
+  const threshold = Math.max(noiseFloor + 6, noiseFloor + (peak - noiseFloor) * 0.35);
+
+  const segments = [];
+  let segmentStart = null;
+
+  frames.forEach((db, index) => {
+    const time = index * FRAME_SECONDS;
+    if (db > threshold && segmentStart === null) {
+      segmentStart = time;
+    } else if (db <= threshold && segmentStart !== null) {
+      segments.push({ start: segmentStart, end: time });
+      segmentStart = null;
+    }
+  });
+
+  if (segmentStart !== null) {
+    segments.push({ start: segmentStart, end: frames.length * FRAME_SECONDS });
+  }
+
+  // Bridge short gaps (breaths, stops inside words) and drop clicks
+  const merged = [];
+  segments.forEach(segment => {
+    const previous = merged[merged.length - 1];
+    if (previous && segment.start - previous.end < minSilence) {
+      previous.end = segment.end;
+    } else {
+      merged.push({ ...segment });
+    }
+  });
+
+  return merged.filter(segment => segment.end - segment.start >= minSpeech);
+}
+
+// Helper function to estimate how long a segment takes to say
+function speechWeight(text) {
+  return Math.max(1, text.replace(/[^\p{L}\p{N}]/gu, '').length);
+}
+
+// Distribute script segments over detected speech, snapping boundaries to pauses
+export function alignToSpeech(texts, speechSegments, duration) {
+  if (speechSegments.length === 0) {
+    throw new Error('No speech detected in audio track');
+  }
+
+  const weights = texts.map(speechWeight);
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+
+  // Speech-time positions: the timeline with every pause removed
+  const speechOffsets = [];
+  let totalSpeech = 0;
+  speechSegments.forEach(segment => {
+    speechOffsets.push(totalSpeech);
+    totalSpeech += segment.end - segment.start;
+  });
+
+  const speechToReal = (speechTime) => {
+    for (let i = 0; i < speechSegments.length; i++) {
+      const segment = speechSegments[i];
+      const length = segment.end - segment.start;
+      if (speechTime <= speechOffsets[i] + length || i === speechSegments.length - 1) {
+        return Math.min(segment.end, segment.start + Math.max(0, speechTime - speechOffsets[i]));
+      }
+    }
+    return speechSegments[speechSegments.length - 1].end;
+  };
+
+  // Expected speech-time position of each boundary between consecutive segments
+  const expected = [];
+  let cumulative = 0;
+  for (let k = 0; k < texts.length - 1; k++) {
+    cumulative += weights[k];
+    expected.push(totalSpeech * cumulative / totalWeight);
+  }
+
+  // Candidate pauses, positioned on the speech timeline
+  const pauses = speechSegments.slice(0, -1).map((segment, i) => ({
+    start: segment.end,
+    end: speechSegments[i + 1].start,
+    position: speechOffsets[i + 1]
+  }));
+
+  // Monotonic assignment of boundaries to pauses (dynamic programming, like edit distance)
+  const tolerance = Math.max(0.75, 0.6 * totalSpeech / texts.length);
+  const unmatchedCost = tolerance * tolerance;
+  const rows = expected.length + 1;
+  const cols = pauses.length + 1;
+  const cost = new Float64Array(rows * cols);
+  const move = new Uint8Array(rows * cols); // 1 = skip pause, 2 = unmatched boundary, 3 = match
+
+  for (let k = 0; k < rows; k++) {
+    for (let j = 0; j < cols; j++) {
+      const cell = k * cols + j;
+      if (k === 0 && j === 0) continue;
+
+      let best = Infinity;
+      let bestMove = 0;
+      if (j > 0 && cost[cell - 1] < best) {
+        best = cost[cell - 1];
+        bestMove = 1;
+      }
+      if (k > 0 && cost[cell - cols] + unmatchedCost < best) {
+        best = cost[cell - cols] + unmatchedCost;
+        bestMove = 2;
+      }
+      if (k > 0 && j > 0) {
+        const distance = pauses[j - 1].position - expected[k - 1];
+        const matchCost = cost[cell - cols - 1] + distance * distance;
+        if (distance * distance <= unmatchedCost && matchCost < best) {
+          best = matchCost;
+          bestMove = 3;
+        }
+      }
+
+      cost[cell] = best;
+      move[cell] = bestMove;
+    }
+  }
+
+  const boundaries = new Array(expected.length);
+  let k = rows - 1;
+  let j = cols - 1;
+  while (k > 0 || j > 0) {
+    const step = move[k * cols + j];
+    if (step === 3) {
+      boundaries[k - 1] = { end: pauses[j - 1].start, start: pauses[j - 1].end };
+      k--;
+      j--;
+    } else if (step === 2) {
+      const time = speechToReal(expected[k - 1]);
+      boundaries[k - 1] = { end: time, start: time };
+      k--;
+    } else {
+      j--;
+    }
+  }
+
+  const firstStart = speechSegments[0].start;
+  const lastEnd = Math.min(duration, speechSegments[speechSegments.length - 1].end);
+  let previousStart = firstStart;
+
+  return texts.map((text, index) => {
+    const start = Math.max(previousStart, index === 0 ? firstStart : boundaries[index - 1].start);
+    let end = index === texts.length - 1 ? lastEnd : boundaries[index].end;
+    end = Math.min(duration, Math.max(end, start + 0.1));
+    previousStart = end;
+    return { start, end };
+  });
+}
+
+registerAligner('energy', async ({ ffmpegPath, videoPath, texts, duration, signal }) => {
+  const frames = await computeEnergyFrames(ffmpegPath, videoPath, { signal });
+  const speechSegments = detectSpeechSegments(frames);
+  return alignToSpeech(texts, speechSegments, duration);
+});
+
+// Load an optional local aligner module (default export is the aligner function)
+if (process.env.LOCAL_ALIGNER_MODULE) {
+  const modulePath = path.resolve(process.env.LOCAL_ALIGNER_MODULE);
+  try {
+    const localModule = await import(pathToFileURL(modulePath).href);
+    registerAligner('local', localModule.default || localModule.align);
+    console.log(`🧩 Local aligner loaded from: ${modulePath}`);
+  } catch (error) {
+    console.error(`❌ Failed to load local aligner from ${modulePath}:`, error.message);
+  }
+}
+
+// Align script segments to the video's speech and return { start, end } for each
+export async function alignScript({ ffmpegPath, videoPath, texts, duration, aligner, signal }) {
+  const name = aligner || process.env.ALIGNER || (aligners.local ? 'local' : 'energy');
+  const align = aligners[name];
+
+  if (!align) {
+    throw new Error(`Unknown aligner: ${name}`);
+  }
+
+  const timings = await align({ ffmpegPath, videoPath, texts, duration, signal, extractAudio });
+
+  if (!Array.isArray(timings) || timings.length !== texts.length) {
+    throw new Error(`Aligner "${name}" returned ${timings?.length ?? 0} timings for ${texts.length} segments`);
+  }
+
+  return timings;
+}
@@ -0,0 +1,179 @@
+// ===== OUTPUT ENCODING =====
+// Codec, quality, speed, frame size, frame rate and container of burned-in renders.
+// Which codecs are offered depends on the encoders the local FFmpeg was built with,
+// read once from `ffmpeg -encoders`; H.264 is assumed when that list is unavailable.
+
+import { execFileSync } from 'child_process';
+
+// Quality is a CRF: lower is better quality and larger files, on each encoder's own scale
+export const VIDEO_CODECS = {
+  h264: { label: 'H.264', encoder: 'libx264', containers: ['mp4', 'mkv', 'mov'], crf: { min: 0, max: 51, default: 23 } },
+  h265: { label: 'H.265 (HEVC)', encoder: 'libx265', containers: ['mp4', 'mkv', 'mov'], crf: { min: 0, max: 51, default: 28 } },
+  vp9: { label: 'VP9', encoder: 'libvpx-vp9', containers: ['webm', 'mkv', 'mp4'], crf: { min: 0, max: 63, default: 31 } },
+  av1: { label: 'AV1', encoder: 'libsvtav1', containers: ['mp4', 'mkv', 'webm'], crf: { min: 1, max: 63, default: 35 } }
+};
+
+export const CONTAINERS = ['mp4', 'mkv', 'webm', 'mov'];
+
+export const SPEED_PRESETS = ['fastest', 'fast', 'medium', 'slow', 'slowest'];
+
+export const RESIZE_MODES = ['fit', 'crop'];
+
+// Each encoder's own speed settings for the shared speed presets
+const X26X_SPEED_ARGS = {
+  fastest: ['-preset', 'ultrafast'],
+  fast: ['-preset', 'veryfast'],
+  medium: ['-preset', 'medium'],
+  slow: ['-preset', 'slow'],
+  slowest: ['-preset', 'veryslow']
+};
+const SPEED_ARGS = {
+  h264: X26X_SPEED_ARGS,
+  h265: X26X_SPEED_ARGS,
+  vp9: {
+    fastest: ['-deadline', 'realtime', '-cpu-used', '8'],
+    fast: ['-deadline', 'good', '-cpu-used', '4'],
+    medium: ['-deadline', 'good', '-cpu-used', '2'],
+    slow: ['-deadline', 'good', '-cpu-used', '1'],
+    slowest: ['-deadline', 'best', '-cpu-used', '0']
+  },
+  av1: {
+    fastest: ['-preset', '12'],
+    fast: ['-preset', '10'],
+    medium: ['-preset', '8'],
+    slow: ['-preset', '5'],
+    slowest: ['-preset', '2']
+  }
+};
+
+// Source audio codecs each container can take as they are; anything else is re-encoded.
+// Matroska holds every codec, so it always copies.
+const AUDIO_COPY_CODECS = {
+  mp4: ['aac', 'mp3', 'ac3', 'eac3', 'alac'],
+  mov: ['aac', 'mp3', 'ac3', 'eac3', 'alac', 'pcm_s16le', 'pcm_s24le'],
+  webm: ['opus', 'vorbis']
+};
+
+const MAX_OUTPUT_SIDE = 4096;
+const MAX_FRAME_RATE = 120;
+const MAX_BITRATE_KBPS = 100000;
+
+let cachedEncoders;
+let cachedCodecs = null;
+
+// Names of every encoder the local FFmpeg has, or null when FFmpeg could not be asked
+export function listEncoders(ffmpegPath) {
+  if (cachedEncoders !== undefined) return cachedEncoders;
+
+  try {
+    const output = execFileSync(ffmpegPath, ['-hide_banner', '-encoders'], { encoding: 'utf8', stdio: 'pipe', timeout: 10000 });
+    // Encoder lines look like " V....D libx264              libx264 H.264 / AVC ..."
+    cachedEncoders = new Set(output.split('\n').map(line => line.trim().split(/\s+/)[1]).filter(Boolean));
+  } catch (error) {
+    cachedEncoders = null;
+  }
+
+  return cachedEncoders;
+}
+
+// Codec ids whose encoder the local FFmpeg has; `detected` is false when FFmpeg could not be asked
+export function listAvailableCodecs(ffmpegPath) {
+  if (cachedCodecs) return cachedCodecs;
+
+  const encoders = listEncoders(ffmpegPath);
+  const codecs = encoders ? Object.keys(VIDEO_CODECS).filter(id => encoders.has(VIDEO_CODECS[id].encoder)) : [];
+  cachedCodecs = codecs.length > 0 ? { codecs, detected: true } : { codecs: ['h264'], detected: false };
+
+  return cachedCodecs;
+}
+
+// Helper function to read a whole number within [min, max]
+function clampInteger(value, min, max, fallback) {
+  const number = parseInt(value, 10);
+  return Number.isFinite(number) ? Math.max(min, Math.min(max, number)) : fallback;
+}
+
+// Helper function to validate the encoding settings of a request against the available codecs.
+// Unknown or unavailable choices fall back to H.264 in the codec's first container.
+export function normalizeEncodingOptions(options = {}, availableCodecs = ['h264']) {
+  const videoCodec = availableCodecs.includes(options.videoCodec) ? options.videoCodec : availableCodecs[0];
+  const codec = VIDEO_CODECS[videoCodec];
+
+  // 0x0 keeps the source's frame size; a target needs both sides, rounded to even for yuv420p
+  let outputWidth = clampInteger(options.outputWidth, 0, MAX_OUTPUT_SIDE, 0);
+  let outputHeight = clampInteger(options.outputHeight, 0, MAX_OUTPUT_SIDE, 0);
+  if (outputWidth < 16 || outputHeight < 16) {
+    outputWidth = 0;
+    outputHeight = 0;
+  }
+
+  return {
+    videoCodec,
+    crf: clampInteger(options.crf, codec.crf.min, codec.crf.max, codec.crf.default),
+    speedPreset: SPEED_PRESETS.includes(options.speedPreset) ? options.speedPreset : 'medium',
+    outputWidth: outputWidth - (outputWidth % 2),
+    outputHeight: outputHeight - (outputHeight % 2),
+    resizeMode: RESIZE_MODES.includes(options.resizeMode) ? options.resizeMode : 'fit',
+    // 0 keeps the source's frame rate
+    frameRate: clampInteger(options.frameRate, 0, MAX_FRAME_RATE, 0),
+    // Peak video bitrate in kbit/s on top of the CRF, for platforms that limit it; 0 leaves it uncapped
+    maxBitrate: clampInteger(options.maxBitrate, 0, MAX_BITRATE_KBPS, 0),
+    container: codec.containers.includes(options.container) ? options.container : codec.containers[0]
+  };
+}
+
+// Helper function to get the filters that bring a `width`x`height` source to the output's frame size and
+// rate, and the resulting frame. They run before the subtitles filter so captions are laid out on the
+// final frame: 'fit' scales the whole picture inside the target and pads the rest black, 'crop' fills
+// the target and trims what overflows.
+export function getFrameFilters({ width, height }, { outputWidth, outputHeight, resizeMode, frameRate }) {
+  const filters = [];
+  let frame = { width, height };
+
+  if (outputWidth && outputHeight) {
+    const size = `${outputWidth}:${outputHeight}`;
+    filters.push(resizeMode === 'crop'
+      ? `scale=${size}:force_original_aspect_ratio=increase,crop=${size}`
+      : `scale=${size}:force_original_aspect_ratio=decrease,pad=${size}:(ow-iw)/2:(oh-ih)/2`);
+    filters.push('setsar=1');
+    frame = { width: outputWidth, height: outputHeight };
+  }
+
+  if (frameRate) {
+    filters.push(`fps=${frameRate}`);
+  }
+
+  return { filters, frame };
+}
+
+// Helper function to get the video encoder arguments for a render
+export function getVideoEncoderArgs({ videoCodec, crf, speedPreset, container, maxBitrate }) {
+  const args = ['-c:v', VIDEO_CODECS[videoCodec].encoder, ...SPEED_ARGS[videoCodec][speedPreset], '-crf', crf.toString()];
+
+  if (maxBitrate) {
+    // Capped CRF: quality-driven, but peaks are held to the cap over a two-second buffer
+    args.push('-maxrate', `${maxBitrate}k`, '-bufsize', `${maxBitrate * 2}k`);
+  }
+  if (videoCodec === 'vp9') {
+    // Constant quality mode; without a zero bitrate libvpx treats the CRF as a cap on a default bitrate
+    args.push('-b:v', '0');
+  }
+  if (videoCodec === 'h265' && container !== 'mkv') {
+    // Apple players only open HEVC in MP4/MOV with the hvc1 tag
+    args.push('-tag:v', 'hvc1');
+  }
+
+  args.push('-pix_fmt', 'yuv420p');
+  return args;
+}
+
+// Helper function to get the audio arguments for a container: the source's audio (`audioCodec`, as
+// ffprobe names it) is copied when the container supports it, otherwise re-encoded to Opus for WebM
+// and AAC for MP4/MOV
+export function getAudioArgs(container, audioCodec) {
+  const copyable = AUDIO_COPY_CODECS[container];
+  if (!audioCodec || !copyable || copyable.includes(audioCodec)) {
+    return ['-c:a', 'copy'];
+  }
+  return container === 'webm' ? ['-c:a', 'libopus', '-b:a', '128k'] : ['-c:a', 'aac', '-b:a', '192k'];
+}
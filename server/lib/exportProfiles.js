@@ -0,0 +1,72 @@
+// ===== PLATFORM EXPORT PROFILES =====
+// Named bundles of output and caption options for the platforms our editors post to.
+// A job can ask for several; each becomes an extra rendition rendered from the same
+// upload and cues as the job's main output, with the profile's options laid over the
+// job's own. Every profile burns captions into H.264 MP4, which all of them accept.
+
+export const EXPORT_PROFILES = {
+  tiktok: {
+    label: 'TikTok',
+    description: '1080x1920 vertical, up to 10 minutes',
+    options: {
+      outputWidth: 1080, outputHeight: 1920, resizeMode: 'crop', maxBitrate: 8000, maxDuration: 600,
+      safeZone: 'tiktok', fontSizeUnit: 'percent', fontSize: 4, maxLineChars: 0
+    }
+  },
+  reels: {
+    label: 'Instagram Reels',
+    description: '1080x1920 vertical, up to 3 minutes',
+    options: {
+      outputWidth: 1080, outputHeight: 1920, resizeMode: 'crop', maxBitrate: 8000, maxDuration: 180,
+      safeZone: 'reels', fontSizeUnit: 'percent', fontSize: 4, maxLineChars: 0
+    }
+  },
+  shorts: {
+    label: 'YouTube Shorts',
+    description: '1080x1920 vertical, up to 3 minutes',
+    options: {
+      outputWidth: 1080, outputHeight: 1920, resizeMode: 'crop', maxBitrate: 10000, maxDuration: 180,
+      safeZone: 'shorts', fontSizeUnit: 'percent', fontSize: 4, maxLineChars: 0
+    }
+  },
+  youtube: {
+    label: 'YouTube',
+    description: '1920x1080 widescreen, no length limit',
+    options: {
+      outputWidth: 1920, outputHeight: 1080, resizeMode: 'fit', maxBitrate: 12000, maxDuration: 0,
+      safeZone: 'youtube', maxLineChars: 0
+    }
+  },
+  linkedin: {
+    label: 'LinkedIn',
+    description: '1080x1080 square, up to 10 minutes',
+    options: {
+      outputWidth: 1080, outputHeight: 1080, resizeMode: 'crop', maxBitrate: 8000, maxDuration: 600,
+      safeZone: 'none', fontSizeUnit: 'percent', fontSize: 4.5, maxLineChars: 0
+    }
+  }
+};
+
+const RENDITION_OPTIONS = { outputMode: 'burn', videoCodec: 'h264', container: 'mp4' };
+
+// Helper function to read a job's profile ids from a JSON array or comma-separated list,
+// dropping unknown ids and duplicates
+export function parseExportProfiles(value) {
+  let ids = value;
+  if (typeof value === 'string') {
+    try {
+      ids = JSON.parse(value);
+    } catch (error) {
+      ids = value.split(',');
+    }
+  }
+  if (!Array.isArray(ids)) return [];
+  return [...new Set(ids.map(id => String(id).trim()))].filter(id => EXPORT_PROFILES[id]);
+}
+
+// The options a profile's rendition is rendered with
+export function getProfileOptions(profileId, options) {
+  // The job's quality only carries over when it is on H.264's CRF scale
+  const crf = options.videoCodec && options.videoCodec !== 'h264' ? undefined : options.crf;
+  return { ...options, ...EXPORT_PROFILES[profileId].options, ...RENDITION_OPTIONS, crf };
+}
@@ -0,0 +1,143 @@
+// ===== LOCAL FONTS =====
+// libass renders burned-in captions with the fonts installed on this machine, so
+// the font picker offers exactly those. Fontconfig's fc-list knows them on Linux
+// and most macOS/Homebrew setups; without it a list of common fonts is offered.
+// Brand fonts can also be uploaded into a font library that FFmpeg is pointed at.
+
+import fs from 'fs';
+import path from 'path';
+import { execSync } from 'child_process';
+
+export const FALLBACK_FONTS = ['Arial', 'Courier New', 'Georgia', 'Helvetica', 'Impact', 'Tahoma', 'Times New Roman', 'Trebuchet MS', 'Verdana'];
+
+let cachedFonts = null;
+
+// Installed font family names, sorted; `detected` is false when the fallback list is used
+export function listInstalledFonts() {
+  if (cachedFonts) return cachedFonts;
+
+  try {
+    const output = execSync('fc-list : family', { encoding: 'utf8', stdio: 'pipe', timeout: 10000 });
+    // Families with localized names are listed as "Name,Other Name"; the first is the one libass matches
+    const families = [...new Set(output.split('\n').map(line => line.split(',')[0].trim()).filter(Boolean))]
+      .sort((a, b) => a.localeCompare(b));
+    cachedFonts = families.length > 0
+      ? { fonts: families, detected: true }
+      : { fonts: FALLBACK_FONTS, detected: false };
+  } catch (error) {
+    cachedFonts = { fonts: FALLBACK_FONTS, detected: false };
+  }
+
+  return cachedFonts;
+}
+
+// Helper function to keep a font family name safe inside FFmpeg's force_style (no quotes, commas or colons)
+export function sanitizeFontFamily(name, fallback = 'Arial') {
+  const trimmed = typeof name === 'string' ? name.trim() : '';
+  return /^[\p{L}\p{N} _.&+-]{1,64}$/u.test(trimmed) ? trimmed : fallback;
+}
+
+// Helper function to read the family name (name ID 1) from TrueType/OpenType font data.
+// Returns null for anything that is not a single TTF/OTF font.
+export function readFontFamily(buffer) {
+  try {
+    const version = buffer.readUInt32BE(0);
+    const tag = buffer.toString('latin1', 0, 4);
+    if (version !== 0x00010000 && tag !== 'OTTO' && tag !== 'true') return null;
+
+    // Table directory: 12-byte header, then 16-byte records of tag, checksum, offset, length
+    const numTables = buffer.readUInt16BE(4);
+    let nameOffset = null;
+    for (let i = 0; i < numTables; i++) {
+      const record = 12 + i * 16;
+      if (buffer.toString('latin1', record, record + 4) === 'name') {
+        nameOffset = buffer.readUInt32BE(record + 8);
+      }
+    }
+    if (nameOffset === null) return null;
+
+    const count = buffer.readUInt16BE(nameOffset + 2);
+    const stringsOffset = nameOffset + buffer.readUInt16BE(nameOffset + 4);
+    const candidates = [];
+
+    for (let i = 0; i < count; i++) {
+      const record = nameOffset + 6 + i * 12;
+      const platformId = buffer.readUInt16BE(record);
+      const languageId = buffer.readUInt16BE(record + 4);
+      const nameId = buffer.readUInt16BE(record + 6);
+      const length = buffer.readUInt16BE(record + 8);
+      const start = stringsOffset + buffer.readUInt16BE(record + 10);
+      if (nameId !== 1 || start + length > buffer.length) continue;
+
+      if (platformId === 3 || platformId === 0) {
+        // Windows and Unicode platforms store UTF-16BE
+        const text = Buffer.from(buffer.subarray(start, start + length)).swap16().toString('utf16le');
+        candidates.push({ text, rank: platformId === 3 && languageId === 0x409 ? 0 : 1 });
+      } else if (platformId === 1) {
+        candidates.push({ text: buffer.toString('latin1', start, start + length), rank: 2 });
+      }
+    }
+
+    const best = candidates.filter(candidate => candidate.text.trim()).sort((a, b) => a.rank - b.rank)[0];
+    return best ? best.text.trim() : null;
+  } catch (error) {
+    // Offsets pointing outside the file: not a font we can use
+    return null;
+  }
+}
+
+// Open the library of uploaded fonts in `dir`. Files are handed to libass through the
+// subtitles filter's fontsdir, so these faces work without installing them system-wide.
+export function openFontLibrary(dir) {
+  fs.mkdirSync(dir, { recursive: true });
+
+  const describe = (fileName) => {
+    const family = readFontFamily(fs.readFileSync(path.join(dir, fileName)));
+    if (!family) return null;
+    return {
+      id: fileName,
+      family,
+      fileName,
+      size: fs.statSync(path.join(dir, fileName)).size,
+      url: `/fonts/${encodeURIComponent(fileName)}`
+    };
+  };
+
+  return {
+    dir,
+
+    // Uploaded fonts sorted by family name
+    list() {
+      return fs.readdirSync(dir)
+        .filter(fileName => /\.(ttf|otf)$/i.test(fileName))
+        .map(describe)
+        .filter(Boolean)
+        .sort((a, b) => a.family.localeCompare(b.family));
+    },
+
+    // Validate and store an uploaded font; throws with a user-facing message when it is unusable
+    add(buffer, originalName) {
+      const family = readFontFamily(buffer);
+      if (!family) {
+        throw new Error(`${originalName} is not a valid TrueType or OpenType font`);
+      }
+      if (sanitizeFontFamily(family, null) !== family) {
+        throw new Error(`The family name "${family}" contains characters FFmpeg cannot use`);
+      }
+
+      const extension = path.extname(originalName).toLowerCase() === '.otf' ? '.otf' : '.ttf';
+      const baseName = path.basename(originalName, path.extname(originalName)).replace(/[^\w-]+/g, '_').slice(0, 60) || 'font';
+      const fileName = `${baseName}-${Date.now()}${extension}`;
+      fs.writeFileSync(path.join(dir, fileName), buffer);
+      return describe(fileName);
+    },
+
+    remove(fontId) {
+      const fileName = path.basename(fontId);
+      const filePath = path.join(dir, fileName);
+      if (!/\.(ttf|otf)$/i.test(fileName) || !fs.existsSync(filePath)) return false;
+      fs.unlinkSync(filePath);
+      return true;
+    }
+  };
+}
@@ -0,0 +1,190 @@
+// ===== PERSISTENT JOB STORE =====
+// Every job (single, batch or re-render) is recorded in a JSON file so progress,
+// results and history survive server restarts. Progress updates are frequent,
+// so writes are coalesced; finished jobs are written straight away. Writes are
+// asynchronous and never overlap: changes made during one are written after it.
+// Changes are also published to subscribers, which is what the progress event
+// stream uses.
+
+import fs from 'fs';
+import path from 'path';
+import { EventEmitter } from 'events';
+
+export const JOB_STATUSES = ['processing', 'completed', 'failed', 'cancelled'];
+
+const SAVE_DELAY_MS = 500;
+
+// Open (or create) the job store backed by `filePath`
+export function openJobStore(filePath, { retentionMs } = {}) {
+  let jobs = {};
+  let saveTimer = null;
+  let writing = null; // the write in progress
+  let queued = null; // the write that follows it
+  const events = new EventEmitter();
+  events.setMaxListeners(0);
+
+  if (fs.existsSync(filePath)) {
+    try {
+      jobs = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+    } catch (error) {
+      console.error(`⚠️  Could not read job store ${filePath}, starting empty:`, error.message);
+      jobs = {};
+    }
+  }
+
+  // Jobs that were running when the server stopped can never finish
+  Object.values(jobs).forEach(job => {
+    if (job.status === 'processing') {
+      job.status = 'failed';
+      job.error = 'Server restarted before the job finished';
+      job.result = { success: false, error: 'Video processing failed', details: job.error };
+      job.updatedAt = new Date().toISOString();
+      job.completedAt = job.updatedAt;
+    }
+  });
+
+  // Write to a temp file first so a crash mid-write never corrupts the store
+  const write = async () => {
+    const tempPath = `${filePath}.tmp`;
+    await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.promises.writeFile(tempPath, JSON.stringify(jobs));
+    await fs.promises.rename(tempPath, filePath);
+  };
+
+  // Resolves once the current state is on disk
+  const save = () => {
+    clearTimeout(saveTimer);
+    saveTimer = null;
+
+    if (!writing) {
+      writing = write()
+        .catch(error => console.error(`⚠️  Could not save job store ${filePath}:`, error.message))
+        .finally(() => {
+          writing = null;
+        });
+      return writing;
+    }
+
+    // One write after the current one covers every change made in the meantime
+    if (!queued) {
+      queued = writing.then(() => {
+        queued = null;
+        return save();
+      });
+    }
+    return queued;
+  };
+
+  const scheduleSave = () => {
+    if (!saveTimer) {
+      saveTimer = setTimeout(save, SAVE_DELAY_MS);
+    }
+  };
+
+  const store = {
+    // Record a new job; `inputs` are the uploaded file names shown in history
+    create(jobId, { type, options = {}, inputs = [] }) {
+      const now = new Date().toISOString();
+      jobs[jobId] = {
+        id: jobId,
+        type,
+        status: 'processing',
+        progress: 0,
+        statusMessage: 'Starting...',
+        options,
+        inputs,
+        result: null,
+        error: null,
+        createdAt: now,
+        updatedAt: now,
+        completedAt: null
+      };
+      save();
+      return jobs[jobId];
+    },
+
+    get(jobId) {
+      return jobs[jobId] || null;
+    },
+
+    setProgress(jobId, progress, statusMessage) {
+      const job = jobs[jobId];
+      if (!job) return;
+      job.progress = progress;
+      job.statusMessage = statusMessage;
+      job.updatedAt = new Date().toISOString();
+      scheduleSave();
+      events.emit(jobId, 'progress', job);
+    },
+
+    complete(jobId, result) {
+      const job = jobs[jobId];
+      if (!job) return;
+      const now = new Date().toISOString();
+      job.status = result.cancelled ? 'cancelled' : result.success ? 'completed' : 'failed';
+      job.result = result;
+      job.error = result.success ? null : (result.details || result.error || 'Unknown error');
+      job.updatedAt = now;
+      job.completedAt = now;
+      save();
+      events.emit(jobId, 'complete', job);
+    },
+
+    // Merge `changes` into a job record
+    update(jobId, changes) {
+      const job = jobs[jobId];
+      if (!job) return null;
+      Object.assign(job, changes, { updatedAt: new Date().toISOString() });
+      save();
+      return job;
+    },
+
+    // Newest first, optionally filtered by status and a createdAt range (ISO timestamps)
+    list({ status, from, to } = {}) {
+      return Object.values(jobs)
+        .filter(job => !status || job.status === status)
+        .filter(job => !from || job.createdAt >= from)
+        .filter(job => !to || job.createdAt <= to)
+        .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+    },
+
+    remove(jobId) {
+      const job = jobs[jobId];
+      if (!job) return null;
+      delete jobs[jobId];
+      save();
+      return job;
+    },
+
+    // Drop finished jobs older than the retention period; returns the removed jobs
+    prune() {
+      if (!retentionMs) return [];
+      const cutoff = Date.now() - retentionMs;
+      const expired = Object.values(jobs).filter(job =>
+        job.status !== 'processing' && Date.parse(job.updatedAt) < cutoff
+      );
+      expired.forEach(job => { delete jobs[job.id]; });
+      if (expired.length > 0) {
+        save();
+      }
+      return expired;
+    },
+
+    // Listen to a job's changes: listener(type, payload) with 'progress' and 'complete' carrying the
+    // job record, plus anything sent through publish(); returns an unsubscribe function
+    subscribe(jobId, listener) {
+      events.on(jobId, listener);
+      return () => events.off(jobId, listener);
+    },
+
+    // Send an event that is not stored (e.g. per-pair batch progress) to the job's subscribers
+    publish(jobId, type, payload) {
+      events.emit(jobId, type, payload);
+    },
+
+    flush: save
+  };
+
+  save();
+  return store;
+}
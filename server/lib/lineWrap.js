@@ -0,0 +1,82 @@
+// ===== CAPTION LINE WRAPPING =====
+// Breaks cue text into lines of at most a given number of characters (CPL) and
+// keeps every cue within a maximum number of lines; text that does not fit is
+// moved into follow-up cues that share the original cue's time. Runs at render
+// time because the default CPL depends on the video's frame size.
+
+import { wrapText } from './segmentation.js';
+import { getAssStyle } from './subtitleFormats.js';
+
+export const DEFAULT_MAX_LINES = 2;
+
+// Characters per line by frame shape: the usual 42 for widescreen, shorter lines on
+// square and vertical video where the frame is narrower relative to the text
+const ASPECT_LINE_CHARS = [
+  { minAspect: 1.3, chars: 42 },
+  { minAspect: 0.9, chars: 32 },
+  { minAspect: 0, chars: 24 }
+];
+
+// Average glyph width in ems, for estimating how many characters fit across the frame
+const AVERAGE_CHAR_EM = 0.55;
+const MIN_LINE_CHARS = 8;
+
+// Helper function to pick the characters per line for a video: the aspect ratio's default,
+// lowered when the font is too large for that many characters to fit between the margins
+// (including any safe zone) at the size captions are rendered for this frame
+export function getDefaultLineChars({ width, height, style = {} }) {
+  const aspect = width / height;
+  const byAspect = ASPECT_LINE_CHARS.find(entry => aspect >= entry.minAspect).chars;
+
+  const assStyle = getAssStyle(style, { width, height });
+  const usableWidth = width - assStyle.MarginL - assStyle.MarginR;
+  const fitting = Math.floor(usableWidth / (AVERAGE_CHAR_EM * assStyle.Fontsize));
+
+  return Math.max(MIN_LINE_CHARS, Math.min(byAspect, fitting));
+}
+
+// Helper function to check whether a cue's text already respects the limits
+function fitsLines(text, maxLineChars, maxLines) {
+  const lines = text.split('\n');
+  return lines.length <= maxLines && lines.every(line => line.trim().length <= maxLineChars);
+}
+
+// Wrap every cue to `maxLineChars` per line and at most `maxLines` lines. Cues that
+// already fit (such as cues wrapped by an earlier render) are left untouched; the
+// rest are reflowed, and overflow becomes extra cues with the time divided by length.
+// Cues are renumbered from 1.
+export function wrapCues(subtitles, { maxLineChars, maxLines = DEFAULT_MAX_LINES }) {
+  return subtitles.flatMap(sub => {
+    if (fitsLines(sub.text, maxLineChars, maxLines)) {
+      return [sub];
+    }
+
+    const lines = wrapText(sub.text.replace(/\s+/g, ' ').trim(), maxLineChars);
+    const groups = [];
+    for (let i = 0; i < lines.length; i += maxLines) {
+      groups.push(lines.slice(i, i + maxLines));
+    }
+
+    const totalLength = lines.reduce((sum, line) => sum + line.length, 0);
+    const duration = sub.end - sub.start;
+    let elapsed = 0;
+    let wordOffset = 0;
+
+    return groups.map(group => {
+      const text = group.join('\n');
+      const start = sub.start + (elapsed / totalLength) * duration;
+      elapsed += group.reduce((sum, line) => sum + line.length, 0);
+      const cue = { ...sub, text, start, end: sub.start + (elapsed / totalLength) * duration };
+
+      // Word timings from the aligner follow their words into the new cue
+      const wordCount = text.split(/\s+/).filter(Boolean).length;
+      if (Array.isArray(sub.words)) {
+        cue.words = sub.words.slice(wordOffset, wordOffset + wordCount);
+      }
+      wordOffset += wordCount;
+
+      cue.duration = cue.end - cue.start;
+      return cue;
+    });
+  }).map((sub, index) => ({ ...sub, id: index + 1 }));
+}
@@ -0,0 +1,91 @@
+// ===== CAPTION STYLE PRESETS =====
+// Named sets of caption options (style and timing) saved in a JSON file, so a
+// house style can be picked instead of re-dialing every option. One preset can
+// be marked as the default the frontend applies on load.
+
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+
+// Open (or create) the preset store backed by `filePath`
+export function openPresetStore(filePath) {
+  let data = { defaultPresetId: null, presets: {} };
+
+  if (fs.existsSync(filePath)) {
+    try {
+      data = { ...data, ...JSON.parse(fs.readFileSync(filePath, 'utf8')) };
+    } catch (error) {
+      console.error(`⚠️  Could not read preset store ${filePath}, starting empty:`, error.message);
+    }
+  }
+
+  // Write to a temp file first so a crash mid-write never corrupts the store
+  const save = () => {
+    const tempPath = `${filePath}.tmp`;
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(tempPath, JSON.stringify(data, null, 2));
+    fs.renameSync(tempPath, filePath);
+  };
+
+  const describe = (preset) => ({ ...preset, isDefault: preset.id === data.defaultPresetId });
+
+  return {
+    // Alphabetical by name
+    list() {
+      return Object.values(data.presets)
+        .sort((a, b) => a.name.localeCompare(b.name))
+        .map(describe);
+    },
+
+    get(presetId) {
+      const preset = data.presets[presetId];
+      return preset ? describe(preset) : null;
+    },
+
+    findByName(name) {
+      const preset = Object.values(data.presets).find(other => other.name.toLowerCase() === name.toLowerCase());
+      return preset ? describe(preset) : null;
+    },
+
+    getDefault() {
+      return this.get(data.defaultPresetId);
+    },
+
+    // `options` should already be validated (normalizeOptions)
+    create(name, options) {
+      const now = new Date().toISOString();
+      const preset = { id: crypto.randomUUID(), name, options, createdAt: now, updatedAt: now };
+      data.presets[preset.id] = preset;
+      save();
+      return describe(preset);
+    },
+
+    // Rename and/or replace the options of a preset
+    update(presetId, { name, options }) {
+      const preset = data.presets[presetId];
+      if (!preset) return null;
+      if (name !== undefined) preset.name = name;
+      if (options !== undefined) preset.options = options;
+      preset.updatedAt = new Date().toISOString();
+      save();
+      return describe(preset);
+    },
+
+    remove(presetId) {
+      const preset = data.presets[presetId];
+      if (!preset) return null;
+      delete data.presets[presetId];
+      if (data.defaultPresetId === presetId) {
+        data.defaultPresetId = null;
+      }
+      save();
+      return preset;
+    },
+
+    // Make a preset the default, or clear the default with `null`
+    setDefault(presetId) {
+      data.defaultPresetId = presetId;
+      save();
+    }
+  };
+}
@@ -0,0 +1,26 @@
+// ===== PLATFORM SAFE ZONES =====
+// Parts of the frame that platform UI (captions, buttons, progress bars) covers,
+// as percentages of the frame's height (top/bottom) or width (left/right).
+// Captions are kept inside the remaining area. Keep src/utils/safeZones.ts in
+// sync so the overlay in the customize step matches what gets rendered.
+
+export const SAFE_ZONES = {
+  tiktok: { label: 'TikTok', top: 8, bottom: 22, left: 5, right: 12 },
+  reels: { label: 'Instagram Reels', top: 13, bottom: 18, left: 5, right: 10 },
+  shorts: { label: 'YouTube Shorts', top: 12, bottom: 20, left: 5, right: 13 },
+  youtube: { label: 'YouTube', top: 5, bottom: 10, left: 5, right: 5 }
+};
+
+export const SAFE_ZONE_NAMES = ['none', ...Object.keys(SAFE_ZONES)];
+
+// Helper function to get a safe zone's insets in pixels of a `width`x`height` frame (all 0 for 'none')
+export function getSafeZoneInsets(name, { width, height }) {
+  const zone = SAFE_ZONES[name];
+  if (!zone) return { top: 0, bottom: 0, left: 0, right: 0 };
+  return {
+    top: Math.round((zone.top / 100) * height),
+    bottom: Math.round((zone.bottom / 100) * height),
+    left: Math.round((zone.left / 100) * width),
+    right: Math.round((zone.right / 100) * width)
+  };
+}
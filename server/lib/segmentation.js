@@ -0,0 +1,201 @@
+// ===== SCRIPT SEGMENTATION =====
+// Turns raw script text into the list of caption texts, one per subtitle.
+// Keep src/utils/segmentation.ts in sync so the runtime estimate in the
+// frontend matches what the server produces.
+
+export const SPLIT_MODES = ['line', 'sentence', 'paragraph', 'characters'];
+
+export const DEFAULT_MAX_CHARS = 80;
+
+// Words that end with a period but do not end a sentence (compared lowercase, without the final period)
+const ABBREVIATIONS = new Set([
+  'mr', 'mrs', 'ms', 'dr', 'prof', 'sr', 'jr', 'st', 'mt', 'ft', 'vs', 'etc', 'approx', 'dept',
+  'inc', 'ltd', 'co', 'corp', 'no', 'nos', 'fig', 'vol', 'ch', 'p', 'pp', 'est', 'gen', 'gov',
+  'sgt', 'capt', 'lt', 'col', 'rev', 'hon', 'ave', 'blvd', 'rd',
+  'jan', 'feb', 'mar', 'apr', 'jun', 'jul', 'aug', 'sep', 'sept', 'oct', 'nov', 'dec',
+  'e.g', 'i.e', 'a.m', 'p.m', 'u.s', 'u.k', 'u.s.a', 'ph.d', 'b.a', 'm.a'
+]);
+
+const CLOSING_CHARS = `"'”’)]}»`;
+const OPENING_CHARS = `"'“‘([{«¿¡`;
+
+// Helper function to collapse internal whitespace of a chunk of text
+function normalizeWhitespace(text) {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+// Helper function to split text into paragraphs on blank lines
+function splitParagraphs(text) {
+  return text
+    .split(/\r?\n[ \t]*\r?\n/)
+    .map(normalizeWhitespace)
+    .filter(Boolean);
+}
+
+// Helper function to get the word that ends right before a period
+function wordBefore(text, index) {
+  let start = index;
+  while (start > 0 && /[^\s"'“‘([{]/.test(text[start - 1])) {
+    start--;
+  }
+  return text.slice(start, index);
+}
+
+// Helper function to decide whether a period at `index` terminates a sentence
+function isSentencePeriod(text, index, nextChar) {
+  const prevChar = text[index - 1] || '';
+
+  // Decimal numbers and version strings: 3.5, v1.2.3
+  if (/\d/.test(prevChar) && /\d/.test(text[index + 1] || '')) {
+    return false;
+  }
+
+  const word = wordBefore(text, index).toLowerCase();
+
+  if (ABBREVIATIONS.has(word)) {
+    return false;
+  }
+
+  // Single-letter initials such as "J. K. Rowling"
+  if (/^[a-z]$/i.test(word) && /[A-Z]/.test(nextChar)) {
+    return false;
+  }
+
+  // A sentence never continues in lowercase after a real full stop
+  if (/[a-z]/.test(nextChar)) {
+    return false;
+  }
+
+  return true;
+}
+
+// Split a paragraph into sentences, handling abbreviations, decimals, ellipses and quotes
+export function splitSentences(paragraph) {
+  const text = normalizeWhitespace(paragraph);
+  const sentences = [];
+  let start = 0;
+  let i = 0;
+
+  while (i < text.length) {
+    const char = text[i];
+
+    if (char !== '.' && char !== '!' && char !== '?' && char !== '…') {
+      i++;
+      continue;
+    }
+
+    // Consume the whole terminator run: "?!", "...", "…"
+    let end = i;
+    while (end + 1 < text.length && /[.!?…]/.test(text[end + 1])) {
+      end++;
+    }
+    const terminator = text.slice(i, end + 1);
+
+    // Attach closing quotes and brackets to the sentence they end
+    while (end + 1 < text.length && CLOSING_CHARS.includes(text[end + 1])) {
+      end++;
+    }
+
+    // A boundary needs whitespace (or the end of the text) after it
+    if (end + 1 < text.length && text[end + 1] !== ' ') {
+      i = end + 1;
+      continue;
+    }
+
+    let next = end + 1;
+    while (next < text.length && text[next] === ' ') {
+      next++;
+    }
+    let nextChar = text[next] || '';
+    if (OPENING_CHARS.includes(nextChar)) {
+      nextChar = text[next + 1] || '';
+    }
+
+    let isBoundary;
+    if (!nextChar) {
+      isBoundary = true;
+    } else if (terminator === '.') {
+      isBoundary = isSentencePeriod(text, i, nextChar);
+    } else if (/^(\.{2,}|…)$/.test(terminator)) {
+      // Trailing ellipses only end the sentence when a new one visibly starts
+      isBoundary = /[A-Z0-9]/.test(nextChar);
+    } else {
+      isBoundary = true;
+    }
+
+    if (isBoundary) {
+      sentences.push(text.slice(start, end + 1).trim());
+      start = next;
+    }
+    i = end + 1;
+  }
+
+  const rest = text.slice(start).trim();
+  if (rest) {
+    sentences.push(rest);
+  }
+
+  return sentences;
+}
+
+// Wrap a long piece of text into balanced chunks of at most `maxChars` characters
+export function wrapText(text, maxChars = DEFAULT_MAX_CHARS) {
+  if (text.length <= maxChars) {
+    return [text];
+  }
+
+  const words = text.split(' ');
+  const chunkCount = Math.ceil(text.length / maxChars);
+  const target = Math.ceil(text.length / chunkCount);
+  const chunks = [];
+  let current = '';
+
+  words.forEach(word => {
+    const candidate = current ? `${current} ${word}` : word;
+    if (current && (candidate.length > maxChars || current.length >= target)) {
+      chunks.push(current);
+      current = word;
+    } else {
+      current = candidate;
+    }
+  });
+
+  if (current) {
+    chunks.push(current);
+  }
+
+  // A single word longer than maxChars is hard-split so no cue exceeds the limit
+  return chunks.flatMap(chunk => {
+    if (chunk.length <= maxChars) return [chunk];
+    const pieces = [];
+    for (let i = 0; i < chunk.length; i += maxChars) {
+      pieces.push(chunk.slice(i, i + maxChars));
+    }
+    return pieces;
+  });
+}
+
+// Split script content into caption texts according to the split mode
+export function segmentScript(scriptContent, options = {}) {
+  const {
+    splitMode = 'line',
+    maxChars = DEFAULT_MAX_CHARS
+  } = options;
+
+  switch (splitMode) {
+    case 'sentence':
+      return splitParagraphs(scriptContent).flatMap(splitSentences);
+    case 'paragraph':
+      return splitParagraphs(scriptContent);
+    case 'characters':
+      return splitParagraphs(scriptContent)
+        .flatMap(splitSentences)
+        .flatMap(sentence => wrapText(sentence, maxChars));
+    case 'line':
+    default:
+      return scriptContent
+        .split('\n')
+        .map(line => line.trim())
+        .filter(Boolean);
+  }
+}
@@ -0,0 +1,85 @@
+// ===== SILENCE-DETECTION CUE TIMING =====
+// Lighter alternative to full alignment: FFmpeg's silencedetect filter finds
+// the pauses, and the gaps between them become the speech segments that the
+// script is distributed across.
+
+import { spawn } from 'child_process';
+import { alignToSpeech } from './alignment.js';
+
+export const DEFAULT_SILENCE_THRESHOLD = -30; // dB
+export const DEFAULT_MIN_SILENCE = 0.5; // seconds
+
+// Run silencedetect on the audio track and return [{ start, end }] silences in seconds
+export function detectSilences(ffmpegPath, videoPath, options = {}) {
+  const {
+    threshold = DEFAULT_SILENCE_THRESHOLD,
+    minSilence = DEFAULT_MIN_SILENCE,
+    signal
+  } = options;
+
+  return new Promise((resolve, reject) => {
+    const args = ['-i', videoPath, '-vn', '-af', `silencedetect=noise=${threshold}dB:d=${minSilence}`, '-f', 'null', '-'];
+    const ffmpegProcess = spawn(ffmpegPath, args, { stdio: ['pipe', 'pipe', 'pipe'], signal });
+
+    let stderrOutput = '';
+    ffmpegProcess.stderr.on('data', (data) => { stderrOutput += data.toString(); });
+
+    ffmpegProcess.on('close', (code) => {
+      if (code !== 0) {
+        return reject(new Error('Silence detection failed: ' + stderrOutput.slice(-500)));
+      }
+      if (!/Stream #.*Audio/.test(stderrOutput)) {
+        return reject(new Error('Video has no audio track for silence detection'));
+      }
+
+      const silences = [];
+      let currentStart = null;
+
+      stderrOutput.split('\n').forEach(line => {
+        const startMatch = line.match(/silence_start:\s*(-?\d+(?:\.\d+)?)/);
+        const endMatch = line.match(/silence_end:\s*(\d+(?:\.\d+)?)/);
+        if (startMatch) {
+          currentStart = Math.max(0, parseFloat(startMatch[1]));
+        } else if (endMatch && currentStart !== null) {
+          silences.push({ start: currentStart, end: parseFloat(endMatch[1]) });
+          currentStart = null;
+        }
+      });
+
+      // Silence running to the end of the file has no silence_end line
+      if (currentStart !== null) {
+        silences.push({ start: currentStart, end: Infinity });
+      }
+
+      resolve(silences);
+    });
+
+    ffmpegProcess.on('error', reject);
+  });
+}
+
+// Turn detected silences into the speech segments between them
+export function silencesToSpeech(silences, duration) {
+  const segments = [];
+  let cursor = 0;
+
+  silences.forEach(silence => {
+    if (silence.start > cursor) {
+      segments.push({ start: cursor, end: Math.min(silence.start, duration) });
+    }
+    cursor = Math.max(cursor, silence.end);
+  });
+
+  if (cursor < duration) {
+    segments.push({ start: cursor, end: duration });
+  }
+
+  return segments.filter(segment => segment.end - segment.start > 0.05);
+}
+
+// Time script segments against the speech found between silences
+export async function timeBySilence({ ffmpegPath, videoPath, texts, duration, threshold, minSilence, signal }) {
+  const silences = await detectSilences(ffmpegPath, videoPath, { threshold, minSilence, signal });
+  const speechSegments = silencesToSpeech(silences, duration);
+  return alignToSpeech(texts, speechSegments, duration);
+}
@@ -0,0 +1,369 @@
+// ===== SUBTITLE FILE FORMATS =====
+// Writers for the subtitle track in every format we offer: SRT, WebVTT, ASS with
+// the chosen caption style, layout, karaoke highlighting and animations baked in
+// (also what gets burned in), and a JSON cue list.
+
+import fs from 'fs';
+import path from 'path';
+import { getSafeZoneInsets } from './safeZones.js';
+
+export const SUBTITLE_FORMATS = ['srt', 'vtt', 'ass', 'json'];
+
+// Caption entrance/exit animations, drawn with ASS override tags
+export const CAPTION_ANIMATIONS = ['none', 'fade', 'pop', 'slide', 'typewriter'];
+
+// Caption positions: a 3x3 grid over the frame
+export const CAPTION_POSITIONS = ['top-left', 'top', 'top-right', 'left', 'center', 'right', 'bottom-left', 'bottom', 'bottom-right'];
+
+// Pixel font sizes, margins and outlines are given on libass's default 384x288 frame for
+// SRT input, so settings look the same as they always have at any video resolution
+export const REFERENCE_FRAME = { width: 384, height: 288 };
+
+// How far the slide animation travels, on the reference frame
+const SLIDE_DISTANCE = 24;
+
+// Typewriter reveal pace, slowed down or sped up so the text is complete within REVEAL_SHARE of the cue
+const TYPEWRITER_MS_PER_CHAR = 50;
+const REVEAL_SHARE = 0.6;
+
+// Helper function to generate SRT content
+export function generateSRT(subtitles) {
+  return subtitles.map((sub, index) => {
+    const startTime = formatTime(sub.start);
+    const endTime = formatTime(sub.end);
+    return `${index + 1}\n${startTime} --> ${endTime}\n${sub.text}\n`;
+  }).join('\n');
+}
+
+// Helper function to format time for SRT
+export function formatTime(seconds, separator = ',') {
+  const totalMs = Math.round(seconds * 1000);
+  const hours = Math.floor(totalMs / 3600000);
+  const minutes = Math.floor((totalMs % 3600000) / 60000);
+  const secs = Math.floor((totalMs % 60000) / 1000);
+  const ms = totalMs % 1000;
+
+  return `${hours.toString().padStart(2, '0')}:${minutes.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}${separator}${ms.toString().padStart(3, '0')}`;
+}
+
+// Helper function to generate WebVTT content
+export function generateVTT(subtitles) {
+  const cues = subtitles.map((sub, index) => {
+    const startTime = formatTime(sub.start, '.');
+    const endTime = formatTime(sub.end, '.');
+    return `${index + 1}\n${startTime} --> ${endTime}\n${sub.text}\n`;
+  });
+  return `WEBVTT\n\n${cues.join('\n')}`;
+}
+
+// Helper function to format time for ASS (H:MM:SS.cc)
+export function formatAssTime(seconds) {
+  const totalCs = Math.round(seconds * 100);
+  const hours = Math.floor(totalCs / 360000);
+  const minutes = Math.floor((totalCs % 360000) / 6000);
+  const secs = Math.floor((totalCs % 6000) / 100);
+  const cs = totalCs % 100;
+
+  return `${hours}:${minutes.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}.${cs.toString().padStart(2, '0')}`;
+}
+
+// Helper function to convert hex color to BGR for FFmpeg
+// An opacity (0-100 %) or an #RRGGBBAA colour adds the alpha byte: &HAABBGGRR&,
+// where ASS alpha runs the other way round (00 is opaque, FF is invisible)
+export function hexToBGR(hex, opacity) {
+  // Remove # if present
+  hex = hex.replace('#', '');
+
+  // Parse RGB values
+  const r = parseInt(hex.substr(0, 2), 16);
+  const g = parseInt(hex.substr(2, 2), 16);
+  const b = parseInt(hex.substr(4, 2), 16);
+  const toHex = (value) => value.toString(16).padStart(2, '0').toUpperCase();
+
+  let alpha = null;
+  if (opacity !== undefined) {
+    alpha = Math.round((1 - Math.max(0, Math.min(100, opacity)) / 100) * 255);
+  } else if (hex.length === 8) {
+    alpha = 255 - parseInt(hex.substr(6, 2), 16);
+  }
+
+  // Convert to BGR format for FFmpeg (format: &HBBGGRR& or &HAABBGGRR&)
+  return `&H${alpha === null ? '' : toHex(alpha)}${toHex(b)}${toHex(g)}${toHex(r)}&`;
+}
+
+// Helper function to get alignment value for FFmpeg (numpad layout: 7 8 9 / 4 5 6 / 1 2 3)
+export function getAlignment(position) {
+  const alignment = { 'top-left': 7, 'top': 8, 'top-right': 9, 'left': 4, 'center': 5, 'right': 6, 'bottom-left': 1, 'bottom-right': 3 }[position];
+  return (alignment || 2).toString(); // Bottom center
+}
+
+// Helper function to round to two decimals, enough precision for ASS sizes
+const roundTo = (value) => Math.round(value * 100) / 100;
+
+// Helper function to turn caption options into ASS style fields for a `frame` of the
+// video's size (used as the ASS PlayResX/PlayResY, so the fields are in video pixels)
+export function getAssStyle(style = {}, frame = REFERENCE_FRAME) {
+  const {
+    fontFamily = 'Arial',
+    fontSize = 24,
+    fontSizeUnit = 'px',
+    fontColor = '#FFFFFF',
+    fontOpacity = 100,
+    fontWeight = 'bold',
+    captionStyle = 'standard',
+    highlightColor = '#FACC15',
+    italic = false,
+    underline = false,
+    outlineColor = '#000000',
+    outlineOpacity = 100,
+    outlineWidth = 1,
+    shadowColor = '#000000',
+    shadowOpacity = 50,
+    shadowDepth = 0,
+    backgroundBox = false,
+    backgroundColor = '#000000',
+    backgroundOpacity = 60,
+    marginH = 10,
+    marginV = 10,
+    position = 'bottom',
+    safeZone = 'none'
+  } = style;
+
+  const scaleX = frame.width / REFERENCE_FRAME.width;
+  const scaleY = frame.height / REFERENCE_FRAME.height;
+  const alignment = getAlignment(position);
+
+  // Margins never reach into the platform's safe zone; MarginV applies at the top for the top
+  // row and at the bottom for the bottom row
+  const insets = getSafeZoneInsets(safeZone, frame);
+  const verticalInset = ['7', '8', '9'].includes(alignment) ? insets.top : insets.bottom;
+
+  // ASS style colours carry no trailing &
+  const colour = (hex, opacity) => hexToBGR(hex, opacity).replace(/&$/, '');
+
+  // BorderStyle=3 swaps the outline for an opaque box: libass fills it with the outline
+  // colour and draws its shadow with BackColour, so both carry the box colour and the
+  // outline width becomes the box padding
+  const box = backgroundBox
+    ? {
+        OutlineColour: colour(backgroundColor, backgroundOpacity),
+        BackColour: colour(backgroundColor, backgroundOpacity),
+        BorderStyle: 3,
+        Outline: roundTo(Math.max(1, outlineWidth) * scaleY)
+      }
+    : {
+        OutlineColour: colour(outlineColor, outlineOpacity),
+        BackColour: colour(shadowColor, shadowOpacity),
+        BorderStyle: 1,
+        Outline: roundTo(outlineWidth * scaleY)
+      };
+
+  // Karaoke words start in SecondaryColour and switch to PrimaryColour as they are spoken
+  const isKaraoke = captionStyle === 'karaoke';
+
+  return {
+    Fontname: fontFamily,
+    // A percentage is of the frame height; pixels are on the reference frame
+    Fontsize: Math.round(fontSizeUnit === 'percent' ? (fontSize / 100) * frame.height : fontSize * scaleY),
+    PrimaryColour: colour(isKaraoke ? highlightColor : fontColor, fontOpacity),
+    SecondaryColour: isKaraoke ? colour(fontColor, fontOpacity) : '&H000000FF',
+    OutlineColour: box.OutlineColour,
+    BackColour: box.BackColour,
+    Bold: fontWeight === 'bold' ? -1 : 0,
+    Italic: italic ? -1 : 0,
+    Underline: underline ? -1 : 0,
+    BorderStyle: box.BorderStyle,
+    Outline: box.Outline,
+    Shadow: roundTo(shadowDepth * scaleY),
+    Alignment: alignment,
+    MarginL: Math.max(Math.round(marginH * scaleX), insets.left),
+    MarginR: Math.max(Math.round(marginH * scaleX), insets.right),
+    MarginV: Math.max(Math.round(marginV * scaleY), verticalInset)
+  };
+}
+
+// Helper function to escape cue text for an ASS Dialogue line
+function escapeAssText(text) {
+  return text
+    .replace(/\{/g, '(')
+    .replace(/\}/g, ')')
+    .replace(/\r?\n/g, '\\N');
+}
+
+// Helper function to split a cue's duration across its words for karaoke highlighting.
+// Word timings from the aligner are used when there is one per word; otherwise each
+// word gets a share proportional to its length. Returns [{ word, start, end }].
+function getWordTimings(sub) {
+  const words = sub.text.split(/\s+/).filter(Boolean);
+  if (Array.isArray(sub.words) && sub.words.length === words.length) {
+    return words.map((word, index) => ({ word, start: sub.words[index].start, end: sub.words[index].end }));
+  }
+
+  const totalLength = words.reduce((sum, word) => sum + word.length, 0);
+  let elapsed = 0;
+  return words.map(word => {
+    const start = sub.start + (elapsed / totalLength) * (sub.end - sub.start);
+    elapsed += word.length;
+    return { word, start, end: sub.start + (elapsed / totalLength) * (sub.end - sub.start) };
+  });
+}
+
+// Helper function to read the alpha byte of an ASS colour (&HAABBGGRR), as an \1a-style value
+function getAssAlpha(colour) {
+  const value = colour.replace(/^&H/, '');
+  return `&H${value.length === 8 ? value.slice(0, 2) : '00'}&`;
+}
+
+// Helper function to find where a caption's alignment point sits: the grid position inside
+// the margins, moved by the X/Y offsets (percentages of the frame, positive is right/down)
+function getAnchorPoint(style, assStyle, frame) {
+  const alignment = Number(assStyle.Alignment);
+  const column = (alignment - 1) % 3;
+  const row = Math.floor((alignment - 1) / 3);
+
+  // Like libass, centred captions sit in the middle of the space between the side margins
+  const x = [assStyle.MarginL, (assStyle.MarginL + frame.width - assStyle.MarginR) / 2, frame.width - assStyle.MarginR][column];
+  const y = [frame.height - assStyle.MarginV, frame.height / 2, assStyle.MarginV][row];
+
+  return {
+    x: Math.round(x + ((style.offsetX || 0) / 100) * frame.width),
+    y: Math.round(y + ((style.offsetY || 0) / 100) * frame.height)
+  };
+}
+
+// Helper function to build the override tags that place and animate a whole cue. Offsets need an
+// explicit \pos; without them libass positions the cue, which keeps overlapping cues apart.
+function getPlacementTags(style, assStyle, frame) {
+  const anchor = getAnchorPoint(style, assStyle, frame);
+  const hasOffset = Boolean(style.offsetX || style.offsetY);
+  const position = hasOffset ? `\\pos(${anchor.x},${anchor.y})` : '';
+
+  switch (style.animation) {
+    case 'fade':
+      return `\\fad(250,250)${position}`;
+    case 'pop':
+      return `\\fad(80,0)\\fscx70\\fscy70\\t(0,120,\\fscx108\\fscy108)\\t(120,200,\\fscx100\\fscy100)${position}`;
+    case 'slide': {
+      // \move positions the alignment point itself, so it always needs the anchor
+      const distance = Math.round(SLIDE_DISTANCE * (frame.height / REFERENCE_FRAME.height));
+      return `\\fad(200,0)\\move(${anchor.x},${anchor.y + distance},${anchor.x},${anchor.y},0,250)`;
+    }
+    default:
+      return position;
+  }
+}
+
+// Helper function to build a Dialogue line's text: karaoke puts a \k tag (the word's duration in
+// centiseconds) before each word, and typewriter hides every character until its reveal time.
+// Karaoke durations are rounded from the cue start so rounding never drifts.
+function getDialogueText(sub, style, assStyle, frame) {
+  const isKaraoke = style.captionStyle === 'karaoke';
+  const isTypewriter = style.animation === 'typewriter';
+  const placementTags = getPlacementTags(style, assStyle, frame);
+  const prefix = placementTags ? `{${placementTags}}` : '';
+
+  const timings = isKaraoke ? getWordTimings(sub) : [];
+  if ((!isKaraoke || timings.length === 0) && !isTypewriter) {
+    return prefix + escapeAssText(sub.text);
+  }
+
+  const text = sub.text.trim();
+  const durationMs = (sub.end - sub.start) * 1000;
+  const charMs = Math.min(TYPEWRITER_MS_PER_CHAR, (durationMs * REVEAL_SHARE) / Math.max(1, text.length));
+  // Hidden characters are fully transparent, then snap back to the style's own alphas
+  const shown = [
+    ['1a', assStyle.PrimaryColour],
+    ['2a', assStyle.SecondaryColour],
+    ['3a', assStyle.OutlineColour],
+    ['4a', assStyle.BackColour]
+  ].map(([tag, colour]) => `\\${tag}${getAssAlpha(colour)}`).join('');
+  const hidden = '\\1a&HFF&\\2a&HFF&\\3a&HFF&\\4a&HFF&';
+  const reveal = (chars, offset) => [...chars].map((char, index) => {
+    const at = Math.round((offset + index) * charMs);
+    // \t with equal start and end times is treated as lasting to the end of the line, so it gets 1ms
+    return `{${hidden}\\t(${at},${at + 1},${shown})}${escapeAssText(char)}`;
+  }).join('');
+
+  let previousEndCs = Math.round(sub.start * 100);
+  let wordIndex = 0;
+  let charOffset = 0;
+
+  return prefix + text.split(/(\s+)/).map(token => {
+    const isSpace = /^\s+$/.test(token);
+    const chars = isSpace ? (token.includes('\n') ? '\n' : ' ') : token;
+    let tag = '';
+
+    if (isKaraoke && !isSpace && timings.length > 0) {
+      const timing = timings[wordIndex++];
+      // A gap before an aligned word is spent on an empty syllable so the word starts on time
+      const gapCs = Math.max(0, Math.round(timing.start * 100) - previousEndCs);
+      const endCs = Math.max(previousEndCs + gapCs, Math.round(timing.end * 100));
+      tag = `${gapCs > 0 ? `{\\k${gapCs}}` : ''}{\\k${endCs - previousEndCs - gapCs}}`;
+      previousEndCs = endCs;
+    }
+
+    // Line breaks are never hidden; they only move the text
+    const body = isTypewriter && chars !== '\n' ? reveal(chars, charOffset) : escapeAssText(chars);
+    charOffset += [...chars].length;
+    return tag + body;
+  }).join('');
+}
+
+// Helper function to generate ASS content with the caption style baked in, for a video of `frame` size
+export function generateASS(subtitles, style = {}, frame = REFERENCE_FRAME) {
+  const assStyle = getAssStyle(style, frame);
+
+  const header = [
+    '[Script Info]',
+    'ScriptType: v4.00+',
+    `PlayResX: ${frame.width}`,
+    `PlayResY: ${frame.height}`,
+    'WrapStyle: 0',
+    'ScaledBorderAndShadow: yes',
+    '',
+    '[V4+ Styles]',
+    'Format: Name, Fontname, Fontsize, PrimaryColour, SecondaryColour, OutlineColour, BackColour, Bold, Italic, Underline, StrikeOut, ScaleX, ScaleY, Spacing, Angle, BorderStyle, Outline, Shadow, Alignment, MarginL, MarginR, MarginV, Encoding',
+    `Style: Default,${assStyle.Fontname},${assStyle.Fontsize},${assStyle.PrimaryColour},${assStyle.SecondaryColour},${assStyle.OutlineColour},${assStyle.BackColour},${assStyle.Bold},${assStyle.Italic},${assStyle.Underline},0,100,100,0,0,${assStyle.BorderStyle},${assStyle.Outline},${assStyle.Shadow},${assStyle.Alignment},${assStyle.MarginL},${assStyle.MarginR},${assStyle.MarginV},1`,
+    '',
+    '[Events]',
+    'Format: Layer, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text'
+  ];
+
+  const events = subtitles.map(sub =>
+    `Dialogue: 0,${formatAssTime(sub.start)},${formatAssTime(sub.end)},Default,,0,0,0,,${getDialogueText(sub, style, assStyle, frame)}`
+  );
+
+  return [...header, ...events, ''].join('\n');
+}
+
+// Helper function to generate the JSON cue list
+export function generateJSON(subtitles) {
+  const cues = subtitles.map((sub, index) => ({
+    id: index + 1,
+    start: sub.start,
+    end: sub.end,
+    duration: sub.end - sub.start,
+    text: sub.text
+  }));
+  return JSON.stringify(cues, null, 2);
+}
+
+// Write every sidecar format to `dir` as `<baseName>.<ext>`; returns { srt, vtt, ass, json } file names.
+// `frame` is the video's size, which the ASS file's layout is computed for.
+export function writeSubtitleFiles(subtitles, style, dir, baseName, frame) {
+  const contents = {
+    srt: generateSRT(subtitles),
+    vtt: generateVTT(subtitles),
+    ass: generateASS(subtitles, style, frame),
+    json: generateJSON(subtitles)
+  };
+
+  const files = {};
+  SUBTITLE_FORMATS.forEach(format => {
+    const filename = `${baseName}.${format}`;
+    fs.writeFileSync(path.join(dir, filename), contents[format]);
+    files[format] = filename;
+  });
+
+  return files;
+}
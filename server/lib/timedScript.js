@@ -0,0 +1,187 @@
+// ===== TIMED SCRIPT IMPORT =====
+// Reads explicit timings out of a script: bracketed "[00:12.5] text" lines,
+// "00:00:05 --> 00:00:08" blocks (which covers SRT and WebVTT files) and ASS
+// "Dialogue:" events. Untimed text is segmented with the normal split mode.
+
+import { segmentScript } from './segmentation.js';
+
+const TIMESTAMP = String.raw`(?:\d+:)?\d{1,2}:\d{1,2}(?:[.,]\d{1,3})?`;
+const ARROW_LINE = new RegExp(`^\\s*(${TIMESTAMP})\\s*-->\\s*(${TIMESTAMP})`);
+const BRACKET_LINE = new RegExp(`^\\s*\\[(${TIMESTAMP})(?:\\s*(?:-->|-)\\s*(${TIMESTAMP}))?\\]\\s*(.*)$`);
+
+// Parse "HH:MM:SS,mmm", "HH:MM:SS.mmm", "H:MM:SS.cc" or "MM:SS.s" into seconds
+export function parseTimestamp(value) {
+  const match = value.trim().match(/^(?:(\d+):)?(\d{1,2}):(\d{1,2})(?:[.,](\d{1,3}))?$/);
+  if (!match) return null;
+
+  const hours = parseInt(match[1] || '0', 10);
+  const minutes = parseInt(match[2], 10);
+  const seconds = parseInt(match[3], 10);
+  const fraction = match[4] ? parseFloat(`0.${match[4]}`) : 0;
+
+  return hours * 3600 + minutes * 60 + seconds + fraction;
+}
+
+// Strip WebVTT/SRT inline markup such as <i>, <c.yellow> or <00:00:01.000>
+function cleanCueText(text) {
+  return text.replace(/<[^>]+>/g, '').trim();
+}
+
+// Helper function to turn ASS override tags and line breaks into plain text
+function cleanAssText(text) {
+  return text
+    .replace(/\{[^}]*\}/g, '')
+    .replace(/\\N/gi, '\n')
+    .replace(/\\h/g, ' ')
+    .trim();
+}
+
+// Helper function to read Dialogue events from an ASS/SSA file
+function parseAss(content) {
+  const lines = content.split(/\r?\n/);
+  let format = ['layer', 'start', 'end', 'style', 'name', 'marginl', 'marginr', 'marginv', 'effect', 'text'];
+  let inEvents = false;
+  const entries = [];
+
+  lines.forEach(line => {
+    const trimmed = line.trim();
+    if (/^\[.*\]$/.test(trimmed)) {
+      inEvents = trimmed.toLowerCase() === '[events]';
+      return;
+    }
+    if (!inEvents) return;
+
+    if (/^format:/i.test(trimmed)) {
+      format = trimmed.slice(7).split(',').map(field => field.trim().toLowerCase());
+      return;
+    }
+
+    if (/^dialogue:/i.test(trimmed)) {
+      const fields = trimmed.slice(9).split(',');
+      const values = fields.slice(0, format.length - 1).map(field => field.trim());
+      values.push(fields.slice(format.length - 1).join(','));
+      const record = Object.fromEntries(format.map((key, i) => [key, values[i] || '']));
+
+      const text = cleanAssText(record.text);
+      const start = parseTimestamp(record.start);
+      const end = parseTimestamp(record.end);
+      if (text && start !== null && end !== null) {
+        entries.push({ text, start, end });
+      }
+    }
+  });
+
+  return entries;
+}
+
+// Whether the script carries any explicit timing at all
+export function hasInlineTimings(content) {
+  return content.split(/\r?\n/).some(line => ARROW_LINE.test(line) || BRACKET_LINE.test(line)) ||
+    /^\s*\[events\]/im.test(content);
+}
+
+// Split a script into entries: { text, start?, end? }; timed entries keep their times verbatim
+export function parseTimedScript(content, options = {}) {
+  if (/^\s*\[script info\]/im.test(content) || /^\s*\[events\]/im.test(content)) {
+    return parseAss(content);
+  }
+
+  const lines = content.replace(/^\uFEFF/, '').split(/\r?\n/);
+  const isVtt = /^\s*WEBVTT\b/.test(lines[0] || '');
+  const entries = [];
+  let untimed = [];
+
+  const flushUntimed = () => {
+    const text = untimed.join('\n');
+    untimed = [];
+    if (!text.trim()) return;
+    segmentScript(text, options).forEach(segment => entries.push({ text: segment }));
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    const trimmed = line.trim();
+
+    // WebVTT header, NOTE, STYLE and REGION blocks carry no captions
+    if (/^WEBVTT\b/.test(trimmed) || /^(NOTE|STYLE|REGION)\b/.test(trimmed)) {
+      while (i + 1 < lines.length && lines[i + 1].trim()) i++;
+      continue;
+    }
+
+    const arrowMatch = line.match(ARROW_LINE);
+    if (arrowMatch) {
+      // A numeric SRT index or VTT cue identifier right before the timing line is not text
+      const previous = (untimed[untimed.length - 1] || '').trim();
+      if (previous && !(untimed[untimed.length - 2] || '').trim() && (isVtt || /^\d+$/.test(previous))) {
+        untimed.pop();
+      }
+      flushUntimed();
+
+      const textLines = [];
+      while (i + 1 < lines.length && lines[i + 1].trim()) {
+        textLines.push(cleanCueText(lines[i + 1]));
+        i++;
+      }
+      const text = textLines.filter(Boolean).join('\n');
+      if (text) {
+        entries.push({
+          text,
+          start: parseTimestamp(arrowMatch[1]),
+          end: parseTimestamp(arrowMatch[2])
+        });
+      }
+      continue;
+    }
+
+    const bracketMatch = line.match(BRACKET_LINE);
+    if (bracketMatch) {
+      flushUntimed();
+      const text = cleanCueText(bracketMatch[3]);
+      if (text) {
+        entries.push({
+          text,
+          start: parseTimestamp(bracketMatch[1]),
+          end: bracketMatch[2] ? parseTimestamp(bracketMatch[2]) : undefined
+        });
+      }
+      continue;
+    }
+
+    untimed.push(line);
+  }
+
+  flushUntimed();
+  return entries;
+}
+
+// Validate an edited cue list (JSON string or array of { text, start, end }) into sorted subtitles
+export function normalizeCueList(cues) {
+  let list = cues;
+  if (typeof cues === 'string') {
+    try {
+      list = JSON.parse(cues);
+    } catch (error) {
+      throw new Error('Cue list is not valid JSON');
+    }
+  }
+
+  if (!Array.isArray(list)) {
+    throw new Error('Cue list must be an array');
+  }
+
+  return list
+    .map(cue => ({
+      text: typeof cue?.text === 'string' ? cue.text.trim() : '',
+      start: Number(cue?.start),
+      end: Number(cue?.end)
+    }))
+    .filter(cue => cue.text && Number.isFinite(cue.start) && Number.isFinite(cue.end) && cue.start >= 0 && cue.end > cue.start)
+    .sort((a, b) => a.start - b.start)
+    .map((cue, index) => ({
+      id: index + 1,
+      text: cue.text,
+      start: cue.start,
+      end: cue.end,
+      duration: cue.end - cue.start
+    }));
+}
@@ -0,0 +1,167 @@
+// ===== RESUMABLE UPLOADS =====
+// Large videos are uploaded in chunks instead of one multipart request: create an
+// upload, append its bytes with PATCH requests that state the offset they start
+// at, then finalize it. The partial file and its metadata live on disk, so a
+// dropped connection (or a server restart) resumes from the last byte received.
+// A finalized upload is claimed by the job that references it.
+
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { Transform } from 'stream';
+import { pipeline } from 'stream/promises';
+
+export const UPLOAD_KINDS = ['video', 'script'];
+
+// Open (or create) the upload store keeping partial files in `dir`
+export function openUploadStore(dir, { maxSize = Infinity, lifetimeMs } = {}) {
+  const uploads = {};
+  const busy = new Set(); // uploads with a chunk being written
+
+  fs.mkdirSync(dir, { recursive: true });
+
+  const dataPath = (uploadId) => path.join(dir, `${uploadId}.part`);
+  const metaPath = (uploadId) => path.join(dir, `${uploadId}.json`);
+
+  const save = (upload) => {
+    fs.writeFileSync(metaPath(upload.id), JSON.stringify(upload, null, 2));
+  };
+
+  // Pick up uploads that were in progress before a restart; the file on disk is the source of truth
+  fs.readdirSync(dir).filter(name => name.endsWith('.json')).forEach(name => {
+    try {
+      const upload = JSON.parse(fs.readFileSync(path.join(dir, name), 'utf8'));
+      upload.offset = fs.existsSync(dataPath(upload.id)) ? fs.statSync(dataPath(upload.id)).size : 0;
+      uploads[upload.id] = upload;
+    } catch (error) {
+      console.error(`⚠️  Could not read upload ${name}, skipping:`, error.message);
+    }
+  });
+
+  const discard = (uploadId) => {
+    delete uploads[uploadId];
+    busy.delete(uploadId);
+    [dataPath(uploadId), metaPath(uploadId)].forEach(filePath => {
+      fs.rmSync(filePath, { force: true });
+    });
+  };
+
+  return {
+    maxSize,
+
+    // Start an upload of `size` bytes; `kind` says which job input it will be ("video" or "script")
+    create({ fileName, size, mimeType = 'application/octet-stream', kind }) {
+      const now = new Date().toISOString();
+      const upload = {
+        id: crypto.randomUUID(),
+        fileName: path.basename(fileName),
+        size,
+        mimeType,
+        kind,
+        offset: 0,
+        complete: false,
+        createdAt: now,
+        updatedAt: now
+      };
+      fs.writeFileSync(dataPath(upload.id), '');
+      save(upload);
+      uploads[upload.id] = upload;
+      return upload;
+    },
+
+    get(uploadId) {
+      return uploads[uploadId] || null;
+    },
+
+    isBusy(uploadId) {
+      return busy.has(uploadId);
+    },
+
+    // Append the bytes of `stream` at the upload's current offset. Whatever arrives before the
+    // stream fails is kept, so the client resumes from the returned offset either way.
+    async append(uploadId, stream) {
+      const upload = uploads[uploadId];
+      let remaining = upload.size - upload.offset;
+      let overflow = false;
+
+      busy.add(uploadId);
+      try {
+        // Bytes past the declared size are read (so the request completes) but never written
+        await pipeline(
+          stream,
+          new Transform({
+            transform(chunk, encoding, callback) {
+              const kept = chunk.subarray(0, Math.max(0, remaining));
+              remaining -= kept.length;
+              overflow = overflow || kept.length < chunk.length;
+              callback(null, kept);
+            }
+          }),
+          fs.createWriteStream(dataPath(uploadId), { flags: 'a' })
+        );
+      } finally {
+        busy.delete(uploadId);
+        upload.offset = fs.statSync(dataPath(uploadId)).size;
+        upload.updatedAt = new Date().toISOString();
+        save(upload);
+      }
+
+      if (overflow) {
+        throw new Error('Chunk exceeds the declared upload size');
+      }
+      return upload;
+    },
+
+    // Mark a fully received upload as ready to be used by a job
+    finalize(uploadId) {
+      const upload = uploads[uploadId];
+      upload.complete = true;
+      upload.updatedAt = new Date().toISOString();
+      save(upload);
+      return upload;
+    },
+
+    // Where a finalized upload's data is, for reading it in place (e.g. preview frames) without claiming it
+    getFilePath(uploadId) {
+      const upload = uploads[uploadId];
+      return upload?.complete ? dataPath(uploadId) : null;
+    },
+
+    // Hand a finalized upload over to a job: its file moves to `targetDir` and it leaves the store.
+    // Returns the file in the shape multer gives uploaded files.
+    claim(uploadId, fieldname, targetDir) {
+      const upload = uploads[uploadId];
+      const uniqueSuffix = Date.now() + '-' + Math.round(Math.random() * 1E9);
+      const filePath = path.join(targetDir, fieldname + '-' + uniqueSuffix + path.extname(upload.fileName));
+
+      fs.renameSync(dataPath(uploadId), filePath);
+      discard(uploadId);
+
+      return {
+        fieldname,
+        originalname: upload.fileName,
+        mimetype: upload.mimeType,
+        path: filePath,
+        size: upload.size
+      };
+    },
+
+    remove(uploadId) {
+      const upload = uploads[uploadId];
+      if (!upload) return null;
+      discard(uploadId);
+      return upload;
+    },
+
+    // Drop uploads nobody has touched within the lifetime; returns the removed uploads
+    prune() {
+      if (!lifetimeMs) return [];
+      const cutoff = Date.now() - lifetimeMs;
+      const expired = Object.values(uploads).filter(upload =>
+        !busy.has(upload.id) && Date.parse(upload.updatedAt) < cutoff
+      );
+      expired.forEach(upload => discard(upload.id));
+      return expired;
+    }
+  };
+}
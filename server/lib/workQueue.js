@@ -0,0 +1,95 @@
+// ===== RENDER QUEUE =====
+// Worker pool for the FFmpeg-heavy part of a job. Every rendition (a single
+// video, one batch pair or a re-render) takes one slot; waiting work runs by
+// priority, first-in first-out within the same priority.
+
+export const PRIORITIES = { high: 10, normal: 0, low: -10 };
+
+// Helper function to map a request's priority name (or number) to a queue priority
+export function parsePriority(value) {
+  if (Object.hasOwn(PRIORITIES, value)) return PRIORITIES[value];
+  const numeric = parseInt(value, 10);
+  return Number.isFinite(numeric) ? Math.max(-100, Math.min(100, numeric)) : PRIORITIES.normal;
+}
+
+// `onChange` is called whenever the queue moves, so waiting jobs can be told their new position
+export function createWorkQueue({ concurrency = 1, onChange = () => {} } = {}) {
+  const waiting = [];
+  const active = new Map(); // jobId -> number of running tasks
+  let sequence = 0;
+
+  const runNext = () => {
+    const running = [...active.values()].reduce((total, count) => total + count, 0);
+    if (running >= concurrency || waiting.length === 0) return;
+
+    const item = waiting.shift();
+    active.set(item.jobId, (active.get(item.jobId) || 0) + 1);
+
+    Promise.resolve()
+      .then(item.task)
+      .then(item.resolve, item.reject)
+      .finally(() => {
+        const count = active.get(item.jobId) - 1;
+        if (count > 0) {
+          active.set(item.jobId, count);
+        } else {
+          active.delete(item.jobId);
+        }
+        runNext();
+      });
+
+    runNext();
+    onChange();
+  };
+
+  return {
+    concurrency,
+
+    // Queue `task` (an async function) for `jobId`; resolves with the task's result once it has run
+    enqueue(task, { jobId, priority = PRIORITIES.normal } = {}) {
+      return new Promise((resolve, reject) => {
+        const item = { task, jobId, priority, order: sequence++, resolve, reject };
+        const index = waiting.findIndex(other =>
+          other.priority < priority || (other.priority === priority && other.order > item.order)
+        );
+        waiting.splice(index === -1 ? waiting.length : index, 0, item);
+        runNext();
+        onChange();
+      });
+    },
+
+    // Drop the job's waiting tasks, rejecting them with `reason`; running tasks are left to the caller
+    cancel(jobId, reason = new Error('Job cancelled')) {
+      for (let i = waiting.length - 1; i >= 0; i--) {
+        if (waiting[i].jobId === jobId) {
+          const [item] = waiting.splice(i, 1);
+          item.reject(reason);
+        }
+      }
+      onChange();
+    },
+
+    // 1-based position of the job's first waiting task, or 0 when none of its work is waiting
+    getPosition(jobId) {
+      return waiting.findIndex(item => item.jobId === jobId) + 1;
+    },
+
+    // Ids of the jobs that have work waiting, in queue order
+    waitingJobIds() {
+      return [...new Set(waiting.map(item => item.jobId))];
+    },
+
+    // Whether any of the job's tasks currently hold a worker
+    isActive(jobId) {
+      return active.has(jobId);
+    },
+
+    stats() {
+      return {
+        concurrency,
+        running: [...active.values()].reduce((total, count) => total + count, 0),
+        waiting: waiting.length
+      };
+    }
+  };
+}
@@ -1,53 +1,24 @@
-import React, { useState, useCallback } from 'react';
-import { Upload, Play, Download, Settings, Clock, FileText, Video, ArrowRight, ArrowLeft, Sparkles, Zap, X } from 'lucide-react';
+import React, { useState, useCallback, useEffect, useRef } from 'react';
+import { Upload, Play, Download, Settings, Clock, FileText, Video, ArrowRight, ArrowLeft, Sparkles, Zap, X, Scissors, History, XCircle, CheckCircle } from 'lucide-react';
 import DragDropZone from './components/DragDropZone';
 import CustomizationPanel from './components/CustomizationPanel';
+import FramePreview from './components/FramePreview';
+import ExportProfilePicker from './components/ExportProfilePicker';
 import ProgressIndicator from './components/ProgressIndicator';
 import ResultsDisplay from './components/ResultsDisplay';
+import TimelineEditor from './components/TimelineEditor';
+import JobHistory from './components/JobHistory';
+import { segmentScript, DEFAULT_MAX_CHARS } from './utils/segmentation';
+import { API_BASE_URL, downloadFile } from './utils/api';
+import { uploadFile, discardUpload, getFileKey } from './utils/uploads';
+import { getCueProblems } from './utils/cues';
+import type { CaptionOptions, ProcessingResult, BatchProcessingResult, Subtitle, JobStatus, JobProgress, JobResult, PairProgress, FileUpload, CaptionPreset } from './types';
 
-interface CaptionOptions {
-  baseDuration: number;
-  wordDuration: number;
-  splitMode: string;
-  fontColor: string;
-  fontWeight: string;
-  fontSize: number;
-  position: string;
-}
-
-interface ProcessingResult {
-  success: boolean;
-  duration: string;
-  durationSeconds: number;
-  subtitlesCount: number;
-  previewUrl: string;
-  downloadUrl: string;
-  subtitles: any[];
-}
-
-interface BatchProcessingResult {
-  success: boolean;
-  jobId: string;
-  batchMode: true;
-  totalPairs: number;
-  results: Array<{
-    index: number;
-    scriptName: string;
-    videoName: string;
-    success: boolean;
-    duration?: string;
-    durationSeconds?: number;
-    subtitlesCount?: number;
-    previewUrl?: string;
-    downloadUrl?: string;
-    subtitles?: any[];
-    error?: string;
-  }>;
-  successCount: number;
-  failureCount: number;
-}
+// Plain scripts plus subtitle files whose timings are used verbatim
+const SCRIPT_FILE_TYPES = '.txt,.srt,.vtt,.ass,.ssa,text/plain,text/vtt';
+const SCRIPT_FILE_PATTERN = /\.(txt|srt|vtt|ass|ssa)$/i;
 
-type Step = 'upload' | 'customize' | 'processing' | 'results';
+type Step = 'upload' | 'customize' | 'edit' | 'processing' | 'results' | 'history';
 
 type ProcessingMode = 'single' | 'batch';
 
@@ -56,6 +27,7 @@ function App() {
   const [processingMode, setProcessingMode] = useState<ProcessingMode>('single');
   const [scriptContent, setScriptContent] = useState<string>('');
   const [batchScripts, setBatchScripts] = useState<File[]>([]);
+  const [batchScriptTexts, setBatchScriptTexts] = useState<string[]>([]);
   const [videoFile, setVideoFile] = useState<File | null>(null);
   const [batchVideos, setBatchVideos] = useState<File[]>([]);
   const [isProcessing, setIsProcessing] = useState(false);
@@ -63,22 +35,144 @@ function App() {
   const [status, setStatus] = useState('Starting...');
   const [result, setResult] = useState<ProcessingResult | BatchProcessingResult | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const [cues, setCues] = useState<Subtitle[]>([]);
+  const [cueTimingMode, setCueTimingMode] = useState('estimate');
+  const [isParsing, setIsParsing] = useState(false);
+  const [stepBeforeHistory, setStepBeforeHistory] = useState<Step>('upload');
+  const [activeJobId, setActiveJobId] = useState<string | null>(null);
+  const [isCancelling, setIsCancelling] = useState(false);
+  const [pairProgress, setPairProgress] = useState<Record<number, PairProgress>>({});
+  const pollIntervalRef = useRef<ReturnType<typeof setInterval> | null>(null);
+  const eventSourceRef = useRef<EventSource | null>(null);
+  const [uploads, setUploads] = useState<Record<string, FileUpload>>({});
+  const uploadTasksRef = useRef<Record<string, { promise: Promise<string>; controller: AbortController; uploadId?: string }>>({});
   
   const [options, setOptions] = useState<CaptionOptions>({
     baseDuration: 3,
     wordDuration: 0.3,
+    timingMode: 'estimate',
+    silenceThreshold: -30,
+    minSilenceDuration: 0.5,
     splitMode: 'line',
+    maxChars: DEFAULT_MAX_CHARS,
+    maxLineChars: 0,
+    maxLines: 2,
     fontColor: '#EC4899',
     fontWeight: 'bold',
+    captionStyle: 'standard',
+    highlightColor: '#FACC15',
+    animation: 'none',
     fontSize: 24,
-    position: 'bottom'
+    fontSizeUnit: 'px',
+    fontFamily: 'Arial',
+    fontOpacity: 100,
+    italic: false,
+    underline: false,
+    outlineColor: '#000000',
+    outlineOpacity: 100,
+    outlineWidth: 1,
+    shadowColor: '#000000',
+    shadowOpacity: 50,
+    shadowDepth: 0,
+    backgroundBox: false,
+    backgroundColor: '#000000',
+    backgroundOpacity: 60,
+    marginH: 10,
+    marginV: 10,
+    position: 'bottom',
+    offsetX: 0,
+    offsetY: 0,
+    safeZone: 'none',
+    outputMode: 'burn',
+    previewStart: -1,
+    previewDuration: 3,
+    previewFormat: 'gif',
+    videoCodec: 'h264',
+    crf: 23,
+    speedPreset: 'medium',
+    outputWidth: 0,
+    outputHeight: 0,
+    resizeMode: 'fit',
+    frameRate: 0,
+    container: 'mp4'
   });
+  const [preset, setPreset] = useState<CaptionPreset | null>(null);
+  const [exportProfiles, setExportProfiles] = useState<string[]>([]);
+
+  // Start from the team's default preset, if one is set on the server
+  useEffect(() => {
+    fetch(`${API_BASE_URL}/api/presets`)
+      .then(response => response.ok ? response.json() : null)
+      .then(data => {
+        const defaultPreset: CaptionPreset | undefined = data?.presets.find((other: CaptionPreset) => other.id === data.defaultPresetId);
+        if (defaultPreset) {
+          setPreset(defaultPreset);
+          setOptions(prev => ({ ...prev, ...defaultPreset.options }));
+        }
+      })
+      .catch(err => console.error('Error loading default preset:', err));
+  }, []);
+
+  // Upload a video in resumable chunks; resolves with its upload id (the same task is shared per file)
+  const startUpload = useCallback((file: File) => {
+    const key = getFileKey(file);
+    const existing = uploadTasksRef.current[key];
+    if (existing) return existing.promise;
+
+    const controller = new AbortController();
+    const setUpload = (upload: FileUpload) => {
+      if (uploadTasksRef.current[key]?.controller === controller) {
+        setUploads(prev => ({ ...prev, [key]: upload }));
+      }
+    };
+
+    setUpload({ status: 'uploading', progress: 0 });
+    const promise = uploadFile(file, 'video', progress => setUpload({ status: 'uploading', progress }), controller.signal)
+      .then(uploadId => {
+        const task = uploadTasksRef.current[key];
+        if (task?.controller === controller) {
+          task.uploadId = uploadId;
+        }
+        setUpload({ status: 'complete', progress: 100, uploadId });
+        return uploadId;
+      })
+      .catch(err => {
+        // Forget the failed task so the next attempt resumes from what the server has
+        setUpload({ status: 'error', progress: 0, error: err instanceof Error ? err.message : 'Upload failed' });
+        delete uploadTasksRef.current[key];
+        throw err;
+      });
+
+    uploadTasksRef.current[key] = { promise, controller };
+    promise.catch(() => undefined); // Errors are shown next to the file
+    return promise;
+  }, []);
+
+  // Stop a file's upload (or drop a finished one) once it is no longer selected
+  const forgetUpload = useCallback((file: File, discard: boolean) => {
+    const key = getFileKey(file);
+    const task = uploadTasksRef.current[key];
+    task?.controller.abort();
+    delete uploadTasksRef.current[key];
+    setUploads(prev => {
+      const next = { ...prev };
+      delete next[key];
+      return next;
+    });
+    if (discard) {
+      discardUpload(file, task?.uploadId);
+    }
+  }, []);
 
   const handleFileUpload = useCallback((files: FileList, type: 'video') => {
     if (type === 'video') {
       if (processingMode === 'single') {
         const file = files[0];
+        if (videoFile && getFileKey(videoFile) !== getFileKey(file)) {
+          forgetUpload(videoFile, true);
+        }
         setVideoFile(file);
+        startUpload(file);
       } else {
         // Handle multiple video files in batch mode
         const videoFiles = Array.from(files).filter(file => 
@@ -86,19 +180,31 @@ function App() {
           file.name.match(/\.(mp4|mov|avi|mkv|webm|flv|wmv|m4v|3gp)$/i)
         );
         setBatchVideos(prev => [...prev, ...videoFiles]);
+        videoFiles.forEach(startUpload);
       }
     }
     setError(null);
-  }, [processingMode]);
+  }, [processingMode, videoFile, startUpload, forgetUpload]);
 
   const handleBatchScriptUpload = useCallback((files: FileList) => {
     const scriptFiles = Array.from(files).filter(file => 
-      file.type === 'text/plain' || file.name.endsWith('.txt')
+      file.type === 'text/plain' || SCRIPT_FILE_PATTERN.test(file.name)
     );
     setBatchScripts(prev => [...prev, ...scriptFiles]);
     setError(null);
   }, []);
 
+  const handleScriptFileImport = useCallback(async (files: FileList) => {
+    const file = files[0];
+    if (!file) return;
+    if (file.type !== 'text/plain' && !SCRIPT_FILE_PATTERN.test(file.name)) {
+      setError('Please import a .txt, .srt, .vtt or .ass script file');
+      return;
+    }
+    setScriptContent(await file.text());
+    setError(null);
+  }, []);
+
   const handleScriptChange = useCallback((content: string) => {
     setScriptContent(content);
     setError(null);
@@ -109,44 +215,220 @@ function App() {
       setScriptContent('');
       setBatchScripts([]);
     } else {
+      [videoFile, ...batchVideos].forEach(file => file && forgetUpload(file, true));
       setVideoFile(null);
       setBatchVideos([]);
     }
     setError(null);
-  }, []);
+  }, [videoFile, batchVideos, forgetUpload]);
 
   const handleRemoveBatchScript = useCallback((index: number) => {
     setBatchScripts(prev => prev.filter((_, i) => i !== index));
   }, []);
 
   const handleRemoveBatchVideo = useCallback((index: number) => {
+    const file = batchVideos[index];
+    if (file && batchVideos.filter(other => getFileKey(other) === getFileKey(file)).length === 1) {
+      forgetUpload(file, true);
+    }
     setBatchVideos(prev => prev.filter((_, i) => i !== index));
-  }, []);
+  }, [batchVideos, forgetUpload]);
+
+  // Read batch scripts so the estimate can segment them the same way the server will
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all(batchScripts.map(file => file.text()))
+      .then(texts => {
+        if (!cancelled) setBatchScriptTexts(texts);
+      })
+      .catch(() => {
+        if (!cancelled) setBatchScriptTexts([]);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [batchScripts]);
 
   const estimateRuntime = useCallback(() => {
     if (processingMode === 'single' && !scriptContent.trim()) return '00:00:00';
     if (processingMode === 'batch' && (batchScripts.length === 0 || batchVideos.length === 0)) return '00:00:00';
     
-    let estimatedLines = 0;
+    // Mirror parseScript on the server: base duration plus per-word time for every segment
+    const scriptSeconds = (content: string) =>
+      segmentScript(content, options).reduce(
+        (total, text) => total + options.baseDuration + text.split(/\s+/).length * options.wordDuration,
+        0
+      );
+
+    let totalSeconds = 0;
     
     if (processingMode === 'single') {
-      const lines = scriptContent.split('\n').filter(line => line.trim());
-      estimatedLines = lines.length || 1;
+      totalSeconds = scriptSeconds(scriptContent);
     } else {
-      // For batch, estimate based on average script length
-      estimatedLines = Math.min(batchScripts.length, batchVideos.length) * 10; // Process pairs only
+      // Process pairs only
+      const pairCount = Math.min(batchScripts.length, batchVideos.length);
+      totalSeconds = batchScriptTexts.slice(0, pairCount).reduce((total, text) => total + scriptSeconds(text), 0);
     }
     
-    const totalSeconds = estimatedLines * (options.baseDuration + (5 * options.wordDuration));
-    
     const hours = Math.floor(totalSeconds / 3600);
     const minutes = Math.floor((totalSeconds % 3600) / 60);
     const seconds = Math.floor(totalSeconds % 60);
     
     return `${hours.toString().padStart(2, '0')}:${minutes.toString().padStart(2, '0')}:${seconds.toString().padStart(2, '0')}`;
-  }, [scriptContent, batchScripts, batchVideos, processingMode, options]);
+  }, [scriptContent, batchScripts, batchScriptTexts, batchVideos, processingMode, options]);
+
+  // Parse the script on the server (without rendering) and open the timeline editor
+  const handleOpenEditor = async () => {
+    if (!scriptContent.trim() || !videoFile) return;
+
+    setIsParsing(true);
+    setError(null);
+
+    try {
+      // Audio-based timing needs the video on the server, and edited cues are rendered as timed here
+      const uploadId = options.timingMode !== 'estimate' ? await startUpload(videoFile) : undefined;
+
+      const response = await fetch(`${API_BASE_URL}/api/parse-script`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ script: scriptContent, ...options, uploadId })
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to parse script');
+      }
+
+      setCues(data.subtitles);
+      setCueTimingMode(data.timingMode || 'estimate');
+      setCurrentStep('edit');
+    } catch (err) {
+      setError(err instanceof Error && !err.message.includes('fetch')
+        ? err.message
+        : 'Unable to connect to the server. Please ensure the backend is running on port 3001.');
+    } finally {
+      setIsParsing(false);
+    }
+  };
+
+  const stopWatching = () => {
+    eventSourceRef.current?.close();
+    eventSourceRef.current = null;
+    if (pollIntervalRef.current) {
+      clearInterval(pollIntervalRef.current);
+      pollIntervalRef.current = null;
+    }
+    setActiveJobId(null);
+  };
+
+  useEffect(() => () => {
+    eventSourceRef.current?.close();
+    if (pollIntervalRef.current) {
+      clearInterval(pollIntervalRef.current);
+    }
+  }, []);
+
+  const applyProgress = (data: JobProgress) => {
+    setProgress(data.progress);
+    setStatus(data.status || 'Processing...');
+  };
+
+  // Show a finished job's result, or why it did not complete
+  const finishJob = (jobStatus: JobStatus | undefined, finalResult: JobResult | null) => {
+    stopWatching();
+
+    // A cancelled batch still shows the pairs that finished
+    const hasOutputs = finalResult && (
+      'batchMode' in finalResult ? finalResult.successCount > 0 : finalResult.success
+    );
+
+    if (finalResult && hasOutputs) {
+      setResult(finalResult as ProcessingResult | BatchProcessingResult);
+      setCurrentStep('results');
+      return;
+    }
+
+    setError(jobStatus === 'cancelled'
+      ? 'Processing was cancelled'
+      : finalResult?.details || finalResult?.error || 'Video processing failed. Please check your files and try again.');
+    setProgress(0);
+    setStatus('Starting...');
+    setCurrentStep('customize');
+  };
+
+  // Fallback when the event stream is unavailable: poll progress until the job leaves "processing"
+  const pollJob = (jobId: string) => {
+    pollIntervalRef.current = setInterval(async () => {
+      try {
+        const progressResponse = await fetch(`${API_BASE_URL}/api/progress/${jobId}`);
+        if (!progressResponse.ok) {
+          console.error('Failed to fetch progress:', progressResponse.status);
+          return;
+        }
+
+        const progressData: JobProgress = await progressResponse.json();
+        applyProgress(progressData);
+
+        if (progressData.jobStatus && progressData.jobStatus !== 'processing') {
+          if (pollIntervalRef.current) {
+            clearInterval(pollIntervalRef.current);
+            pollIntervalRef.current = null;
+          }
 
-  const handleProcess = async () => {
+          const resultResponse = await fetch(`${API_BASE_URL}/api/result/${jobId}`);
+          finishJob(progressData.jobStatus, resultResponse.ok ? await resultResponse.json() : null);
+        }
+      } catch (progressError) {
+        console.error('Error fetching progress:', progressError);
+      }
+    }, 1000);
+  };
+
+  // Follow a job through its event stream until the final result arrives
+  const watchJob = (jobId: string) => {
+    setActiveJobId(jobId);
+    setPairProgress({});
+
+    if (typeof EventSource === 'undefined') {
+      pollJob(jobId);
+      return;
+    }
+
+    const source = new EventSource(`${API_BASE_URL}/api/jobs/${jobId}/events`);
+    eventSourceRef.current = source;
+    let failedAttempts = 0;
+
+    source.onopen = () => {
+      failedAttempts = 0;
+    };
+
+    source.addEventListener('progress', (event) => {
+      applyProgress(JSON.parse((event as MessageEvent).data));
+    });
+
+    source.addEventListener('pair', (event) => {
+      const pair: PairProgress = JSON.parse((event as MessageEvent).data);
+      setPairProgress(previous => ({ ...previous, [pair.index]: pair }));
+    });
+
+    source.addEventListener('result', (event) => {
+      const data: { jobStatus: JobStatus; result: JobResult | null } = JSON.parse((event as MessageEvent).data);
+      finishJob(data.jobStatus, data.result);
+    });
+
+    // EventSource reconnects on its own; if the stream keeps failing, switch to polling
+    source.onerror = () => {
+      failedAttempts++;
+      if (source.readyState === EventSource.CLOSED || failedAttempts >= 3) {
+        console.warn(`Event stream for job ${jobId} unavailable, falling back to polling`);
+        source.close();
+        eventSourceRef.current = null;
+        pollJob(jobId);
+      }
+    };
+  };
+
+  const handleProcess = async (editedCues?: Subtitle[]) => {
     if (processingMode === 'single' && (!scriptContent.trim() || !videoFile)) {
       setError('Please provide both script content and upload a video file');
       return;
@@ -170,31 +452,48 @@ function App() {
     setResult(null);
 
     try {
+      // Videos started uploading when they were picked; wait for any still in flight
+      const videos = processingMode === 'single' && videoFile ? [videoFile] : batchVideos;
+      setStatus('Finishing video uploads...');
+      const uploadIds = await Promise.all(videos.map(startUpload));
+      
       const formData = new FormData();
       
       if (processingMode === 'single') {
-        // Create a blob from script content and append as file
-        const scriptBlob = new Blob([scriptContent], { type: 'text/plain' });
-        formData.append('script', scriptBlob, 'script.txt');
-        formData.append('video', videoFile);
+        if (editedCues) {
+          // Cues from the timeline editor replace the raw script
+          formData.append('cues', JSON.stringify(editedCues));
+        } else {
+          // Create a blob from script content and append as file
+          const scriptBlob = new Blob([scriptContent], { type: 'text/plain' });
+          formData.append('script', scriptBlob, 'script.txt');
+        }
+        formData.append('uploads', JSON.stringify({ video: uploadIds[0] }));
       } else {
         // Batch processing - append all files
         batchScripts.forEach((script, index) => {
           formData.append(`script_${index}`, script);
         });
-        batchVideos.forEach((video, index) => {
-          formData.append(`video_${index}`, video);
-        });
+        formData.append('uploads', JSON.stringify(
+          Object.fromEntries(uploadIds.map((uploadId, index) => [`video_${index}`, uploadId]))
+        ));
         formData.append('processingMode', 'batch');
         formData.append('batchCount', batchScripts.length.toString());
       }
       
+      // Options are always sent in full, so the job renders exactly what is on screen even if
+      // the preset they came from is older than some settings or is edited later
       Object.entries(options).forEach(([key, value]) => {
         formData.append(key, value.toString());
       });
 
+      // Platform renditions made alongside the main video
+      if (exportProfiles.length > 0) {
+        formData.append('exportProfiles', JSON.stringify(exportProfiles));
+      }
+
       // Start processing request
-      const response = await fetch('http://localhost:3001/api/caption', {
+      const response = await fetch(`${API_BASE_URL}/api/caption`, {
         method: 'POST',
         body: formData
       });
@@ -205,52 +504,14 @@ function App() {
         throw new Error(errorData.error || 'Video processing failed. Please check your files and try again.');
       }
 
+      // The job now owns the uploaded videos; processing again uploads them afresh
+      videos.forEach(video => forgetUpload(video, false));
+      
       const resultData = await response.json();
       const jobId = resultData.jobId;
       console.log(`Started processing with job ID: ${jobId}`);
       
-      // Add a small delay before starting polling to ensure server has time to initialize
-      setTimeout(() => {
-        const progressInterval = setInterval(async () => {
-          try {
-            console.log(`Polling progress for job ${jobId}`);
-            const progressResponse = await fetch(`http://localhost:3001/api/progress/${jobId}`);
-            if (progressResponse.ok) {
-              const progressData = await progressResponse.json();
-              console.log(`Progress update:`, progressData);
-              setProgress(progressData.progress);
-              setStatus(progressData.status || 'Processing...');
-              
-              if (progressData.progress >= 100) {
-                clearInterval(progressInterval);
-                
-                // Fetch final results
-                try {
-                  const resultResponse = await fetch(`http://localhost:3001/api/result/${jobId}`);
-                  if (resultResponse.ok) {
-                    const finalResult = await resultResponse.json();
-                    setResult(finalResult);
-                    setCurrentStep('results');
-                  } else {
-                    throw new Error('Failed to fetch final results');
-                  }
-                } catch (resultError) {
-                  console.error('Error fetching results:', resultError);
-                  setError('Processing completed but failed to fetch results');
-                  setCurrentStep('upload');
-                }
-              }
-            } else {
-              console.error('Failed to fetch progress:', progressResponse.status);
-            }
-          } catch (progressError) {
-            console.error('Error fetching progress:', progressError);
-          }
-        }, 500); // Poll every 500ms for more responsive updates
-        
-        // Clear interval after 10 minutes as fallback
-        setTimeout(() => clearInterval(progressInterval), 300000);
-      }, 500); // Wait 500ms before starting polling
+      watchJob(jobId);
       
     } catch (err) {
       let errorMessage = 'An unexpected error occurred. Please try again.';
@@ -274,6 +535,56 @@ function App() {
     }
   };
 
+  // Re-render the finished job with corrected cues; the server reuses the uploaded source video
+  const handleRerender = async (editedCues: Subtitle[]) => {
+    const sourceJobId = (result as ProcessingResult | null)?.sourceJobId;
+    if (!sourceJobId) return;
+
+    setCurrentStep('processing');
+    setProgress(0);
+    setStatus('Starting...');
+    setError(null);
+
+    try {
+      const response = await fetch(`${API_BASE_URL}/api/rerender/${sourceJobId}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...options, exportProfiles, cues: editedCues })
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Re-render failed. Please try again.');
+      }
+
+      setResult(null);
+      watchJob(data.jobId);
+    } catch (err) {
+      setError(err instanceof Error && !err.message.includes('fetch')
+        ? err.message
+        : 'Unable to connect to the server. Please ensure the backend is running on port 3001.');
+      setCurrentStep('results');
+    }
+  };
+
+  // Stop the running job on the server; its final "cancelled" update then leaves the processing step
+  const handleCancel = async () => {
+    if (!activeJobId) return;
+
+    setIsCancelling(true);
+    try {
+      const response = await fetch(`${API_BASE_URL}/api/jobs/${activeJobId}/cancel`, { method: 'POST' });
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to cancel processing');
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to cancel processing');
+    } finally {
+      setIsCancelling(false);
+    }
+  };
+
   const handleReset = () => {
     setScriptContent('');
     setBatchScripts([]);
@@ -283,9 +594,35 @@ function App() {
     setProgress(0);
     setStatus('Starting...');
     setIsProcessing(false);
+    setCues([]);
     setCurrentStep('upload');
   };
 
+  const handleToggleHistory = () => {
+    if (currentStep === 'history') {
+      setCurrentStep(stepBeforeHistory);
+    } else {
+      setStepBeforeHistory(currentStep);
+      setCurrentStep('history');
+    }
+  };
+
+  // Load a past job's stored result into the results view
+  const handleOpenJobResult = async (jobId: string) => {
+    setError(null);
+    try {
+      const response = await fetch(`${API_BASE_URL}/api/result/${jobId}`);
+      if (!response.ok) {
+        throw new Error('Failed to fetch job result');
+      }
+      setResult(await response.json());
+      setCurrentStep('results');
+    } catch (err) {
+      console.error('Error opening job result:', err);
+      setError('Unable to open this job. Please ensure the backend is running on port 3001.');
+    }
+  };
+
   const canProceedToCustomize = processingMode === 'single' 
     ? (scriptContent.trim() && videoFile)
     : (batchScripts.length > 0 && batchVideos.length > 0 && batchScripts.length === batchVideos.length);
@@ -294,9 +631,13 @@ function App() {
     ? (scriptContent.trim() && videoFile)
     : (batchScripts.length > 0 && batchVideos.length > 0 && batchScripts.length === batchVideos.length);
 
+  // The customize step previews the single video, or the first one of a batch
+  const previewVideo = processingMode === 'single' ? videoFile : batchVideos[0] || null;
+
   const stepIndicators = [
     { key: 'upload', label: 'Upload', icon: Upload },
     { key: 'customize', label: 'Customize', icon: Settings },
+    { key: 'edit', label: 'Edit', icon: Scissors },
     { key: 'processing', label: 'Processing', icon: Zap },
     { key: 'results', label: 'Results', icon: Download }
   ];
@@ -364,63 +705,82 @@ function App() {
                 </div>
               );
             })}
+
+            <div className="w-px h-6 bg-white/20 mx-1 sm:mx-2" />
+
+            <button
+              onClick={handleToggleHistory}
+              className={`flex items-center space-x-1 sm:space-x-2 transition-all duration-500 whitespace-nowrap ${
+                currentStep === 'history' ? 'text-white scale-110' : 'text-purple-300 hover:text-white'
+              }`}
+              title="Browse past jobs"
+            >
+              <div className={`p-1 sm:p-1.5 lg:p-2 rounded-full transition-all duration-500 ${
+                currentStep === 'history' ? 'bg-gradient-to-r from-purple-500 to-pink-500 shadow-lg' : 'bg-white/20'
+              }`}>
+                <History className="w-3 h-3 sm:w-4 sm:h-4 lg:w-5 lg:h-5" />
+              </div>
+              <span className="font-medium text-xs sm:text-sm lg:text-base hidden sm:inline">History</span>
+            </button>
           </div>
         </div>
 
         {/* Processing Mode Toggle */}
-        <div className="flex justify-center mb-6 sm:mb-8 px-4">
-          <div className="bg-white/10 backdrop-blur-lg rounded-2xl p-2 border border-white/20 shadow-xl">
-            <div className="flex items-center space-x-1">
-              <button
-                onClick={() => {
-                  setProcessingMode('single');
-                  setBatchScripts([]);
-                  setScriptContent('');
-                  setError(null);
-                }}
-                className={`relative px-4 sm:px-6 lg:px-8 py-2 sm:py-3 rounded-xl font-semibold transition-all duration-500 text-sm sm:text-base ${
-                  processingMode === 'single'
-                    ? 'bg-gradient-to-r from-purple-500 to-pink-500 text-white shadow-lg transform scale-105'
-                    : 'text-purple-200 hover:text-white hover:bg-white/10'
-                }`}
-              >
-                <div className="flex items-center space-x-2">
-                  <div className={`w-2 h-2 rounded-full transition-all duration-300 ${
-                    processingMode === 'single' ? 'bg-white' : 'bg-purple-300'
-                  }`} />
-                  <span>Single Video</span>
-                </div>
-                {processingMode === 'single' && (
-                  <div className="absolute inset-0 bg-gradient-to-r from-purple-500/20 to-pink-500/20 rounded-xl animate-pulse" />
-                )}
-              </button>
+        {currentStep !== 'history' && (
+          <div className="flex justify-center mb-6 sm:mb-8 px-4">
+            <div className="bg-white/10 backdrop-blur-lg rounded-2xl p-2 border border-white/20 shadow-xl">
+              <div className="flex items-center space-x-1">
+                <button
+                  onClick={() => {
+                    setProcessingMode('single');
+                    setBatchScripts([]);
+                    setScriptContent('');
+                    setError(null);
+                  }}
+                  className={`relative px-4 sm:px-6 lg:px-8 py-2 sm:py-3 rounded-xl font-semibold transition-all duration-500 text-sm sm:text-base ${
+                    processingMode === 'single'
+                      ? 'bg-gradient-to-r from-purple-500 to-pink-500 text-white shadow-lg transform scale-105'
+                      : 'text-purple-200 hover:text-white hover:bg-white/10'
+                  }`}
+                >
+                  <div className="flex items-center space-x-2">
+                    <div className={`w-2 h-2 rounded-full transition-all duration-300 ${
+                      processingMode === 'single' ? 'bg-white' : 'bg-purple-300'
+                    }`} />
+                    <span>Single Video</span>
+                  </div>
+                  {processingMode === 'single' && (
+                    <div className="absolute inset-0 bg-gradient-to-r from-purple-500/20 to-pink-500/20 rounded-xl animate-pulse" />
+                  )}
+                </button>
               
-              <button
-                onClick={() => {
-                  setProcessingMode('batch');
-                  setScriptContent('');
-                  setBatchScripts([]);
-                  setError(null);
-                }}
-                className={`relative px-4 sm:px-6 lg:px-8 py-2 sm:py-3 rounded-xl font-semibold transition-all duration-500 text-sm sm:text-base ${
-                  processingMode === 'batch'
-                    ? 'bg-gradient-to-r from-purple-500 to-pink-500 text-white shadow-lg transform scale-105'
-                    : 'text-purple-200 hover:text-white hover:bg-white/10'
-                }`}
-              >
-                <div className="flex items-center space-x-2">
-                  <div className={`w-2 h-2 rounded-full transition-all duration-300 ${
-                    processingMode === 'batch' ? 'bg-white' : 'bg-purple-300'
-                  }`} />
-                  <span>Batch Processing</span>
-                </div>
-                {processingMode === 'batch' && (
-                  <div className="absolute inset-0 bg-gradient-to-r from-purple-500/20 to-pink-500/20 rounded-xl animate-pulse" />
-                )}
-              </button>
+                <button
+                  onClick={() => {
+                    setProcessingMode('batch');
+                    setScriptContent('');
+                    setBatchScripts([]);
+                    setError(null);
+                  }}
+                  className={`relative px-4 sm:px-6 lg:px-8 py-2 sm:py-3 rounded-xl font-semibold transition-all duration-500 text-sm sm:text-base ${
+                    processingMode === 'batch'
+                      ? 'bg-gradient-to-r from-purple-500 to-pink-500 text-white shadow-lg transform scale-105'
+                      : 'text-purple-200 hover:text-white hover:bg-white/10'
+                  }`}
+                >
+                  <div className="flex items-center space-x-2">
+                    <div className={`w-2 h-2 rounded-full transition-all duration-300 ${
+                      processingMode === 'batch' ? 'bg-white' : 'bg-purple-300'
+                    }`} />
+                    <span>Batch Processing</span>
+                  </div>
+                  {processingMode === 'batch' && (
+                    <div className="absolute inset-0 bg-gradient-to-r from-purple-500/20 to-pink-500/20 rounded-xl animate-pulse" />
+                  )}
+                </button>
+              </div>
             </div>
           </div>
-        </div>
+        )}
 
         {/* Main Content */}
         <div className="flex-1 flex items-start justify-center px-4 pb-8">
@@ -471,21 +831,45 @@ function App() {
                                 <p className="text-purple-200 text-xs sm:text-sm">Write or paste your script here</p>
                               </div>
                             </div>
-                            {scriptContent.trim() && (
-                              <button
-                                onClick={() => handleFileDeselect('script')}
-                                className="p-1.5 bg-red-500/20 hover:bg-red-500/40 rounded-full transition-all duration-300 hover:scale-110"
-                                title="Clear script"
+                            <div className="flex items-center space-x-2">
+                              <label
+                                className="px-2 sm:px-3 py-1 bg-white/10 hover:bg-white/20 text-purple-200 hover:text-white rounded-lg transition-all duration-300 text-xs sm:text-sm cursor-pointer"
+                                title="Import a .txt, .srt, .vtt or .ass file"
                               >
-                                <X className="w-3 h-3 sm:w-4 sm:h-4 text-red-300" />
-                              </button>
-                            )}
+                                Import file
+                                <input
+                                  type="file"
+                                  accept={SCRIPT_FILE_TYPES}
+                                  onChange={(e) => {
+                                    if (e.target.files) handleScriptFileImport(e.target.files);
+                                    e.target.value = '';
+                                  }}
+                                  className="hidden"
+                                />
+                              </label>
+                              {scriptContent.trim() && (
+                                <button
+                                  onClick={() => handleFileDeselect('script')}
+                                  className="p-1.5 bg-red-500/20 hover:bg-red-500/40 rounded-full transition-all duration-300 hover:scale-110"
+                                  title="Clear script"
+                                >
+                                  <X className="w-3 h-3 sm:w-4 sm:h-4 text-red-300" />
+                                </button>
+                              )}
+                            </div>
                           </div>
                           <div className="flex-1 flex flex-col">
                             <textarea
                               value={scriptContent}
                               onChange={(e) => handleScriptChange(e.target.value)}
-                              placeholder="Enter your script here... Each line will become a subtitle."
+                              onDragOver={(e) => e.preventDefault()}
+                              onDrop={(e) => {
+                                if (e.dataTransfer.files.length > 0) {
+                                  e.preventDefault();
+                                  handleScriptFileImport(e.dataTransfer.files);
+                                }
+                              }}
+                              placeholder="Enter your script here... Each line will become a subtitle. Add timings with [00:12.5] or drop an .srt/.vtt/.ass file."
                               className="w-full flex-1 px-3 sm:px-4 py-2 sm:py-3 bg-white/10 border border-white/20 rounded-xl text-white placeholder-white/50 focus:outline-none focus:ring-2 focus:ring-purple-500 focus:border-transparent transition-all duration-300 resize-none text-sm sm:text-base"
                             />
                             <div className="flex justify-between items-center mt-2">
@@ -509,7 +893,7 @@ function App() {
                               </div>
                               <div>
                                 <h3 className="text-base sm:text-lg lg:text-xl font-bold text-white">Script Files</h3>
-                                <p className="text-purple-200 text-xs sm:text-sm">Upload multiple .txt script files</p>
+                                <p className="text-purple-200 text-xs sm:text-sm">Upload .txt, .srt, .vtt or .ass script files</p>
                               </div>
                             </div>
                             {batchScripts.length > 0 && (
@@ -536,7 +920,7 @@ function App() {
                                 <input
                                   type="file"
                                   multiple
-                                  accept=".txt,text/plain"
+                                  accept={SCRIPT_FILE_TYPES}
                                   onChange={(e) => e.target.files && handleBatchScriptUpload(e.target.files)}
                                   className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
                                 />
@@ -544,7 +928,7 @@ function App() {
                                   <div className="w-12 h-12 bg-gradient-to-r from-purple-500/50 to-pink-500/50 rounded-xl mx-auto flex items-center justify-center">
                                     <FileText className="w-6 h-6 text-white" />
                                   </div>
-                                  <p className="text-white font-medium">Drop .txt files here</p>
+                                  <p className="text-white font-medium">Drop script files here</p>
                                   <p className="text-purple-200 text-sm">or click to browse</p>
                                 </div>
                               </div>
@@ -586,7 +970,7 @@ function App() {
                                   <input
                                     type="file"
                                     multiple
-                                    accept=".txt,text/plain"
+                                    accept={SCRIPT_FILE_TYPES}
                                     onChange={(e) => e.target.files && handleBatchScriptUpload(e.target.files)}
                                     className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
                                   />
@@ -620,6 +1004,7 @@ function App() {
                           title="Video File"
                           description="Upload your video file (MP4, MOV, AVI, etc.)"
                           file={videoFile}
+                          upload={videoFile ? uploads[getFileKey(videoFile)] : undefined}
                           onFileDeselect={() => handleFileDeselect('video')}
                         />
                       </div>
@@ -676,27 +1061,52 @@ function App() {
                           ) : (
                             <div className="flex-1 overflow-y-auto custom-scrollbar">
                               <div className="space-y-2">
-                                {batchVideos.map((file, index) => (
-                                  <div
-                                    key={index}
-                                    className="flex items-center justify-between p-2 sm:p-3 bg-white/10 rounded-lg border border-white/20 hover:border-purple-400 transition-all duration-300"
-                                  >
-                                    <div className="flex items-center space-x-2 flex-1 min-w-0">
-                                      <Video className="w-4 h-4 text-purple-300 flex-shrink-0" />
-                                      <span className="text-white text-sm truncate">{file.name}</span>
-                                      <span className="text-purple-300 text-xs">
-                                        ({(file.size / (1024 * 1024)).toFixed(1)}MB)
-                                      </span>
-                                    </div>
-                                    <button
-                                      onClick={() => handleRemoveBatchVideo(index)}
-                                      className="p-1 bg-red-500/20 hover:bg-red-500/40 rounded-full transition-all duration-300 hover:scale-110 flex-shrink-0"
-                                      title="Remove file"
+                                {batchVideos.map((file, index) => {
+                                  const upload = uploads[getFileKey(file)];
+                                  
+                                  return (
+                                    <div
+                                      key={index}
+                                      className="p-2 sm:p-3 bg-white/10 rounded-lg border border-white/20 hover:border-purple-400 transition-all duration-300"
                                     >
-                                      <X className="w-3 h-3 text-red-300" />
-                                    </button>
-                                  </div>
-                                ))}
+                                      <div className="flex items-center justify-between">
+                                        <div className="flex items-center space-x-2 flex-1 min-w-0">
+                                          <Video className="w-4 h-4 text-purple-300 flex-shrink-0" />
+                                          <span className="text-white text-sm truncate">{file.name}</span>
+                                          <span className="text-purple-300 text-xs">
+                                            ({(file.size / (1024 * 1024)).toFixed(1)}MB)
+                                          </span>
+                                          {upload?.status === 'uploading' && (
+                                            <span className="text-purple-200 text-xs flex-shrink-0">{upload.progress}%</span>
+                                          )}
+                                          {upload?.status === 'complete' && (
+                                            <CheckCircle className="w-3.5 h-3.5 text-green-300 flex-shrink-0" />
+                                          )}
+                                        </div>
+                                        <button
+                                          onClick={() => handleRemoveBatchVideo(index)}
+                                          className="p-1 bg-red-500/20 hover:bg-red-500/40 rounded-full transition-all duration-300 hover:scale-110 flex-shrink-0"
+                                          title="Remove file"
+                                        >
+                                          <X className="w-3 h-3 text-red-300" />
+                                        </button>
+                                      </div>
+                                      {upload?.status === 'uploading' && (
+                                        <div className="w-full bg-white/10 rounded-full h-1 mt-2 overflow-hidden">
+                                          <div
+                                            className="h-1 rounded-full bg-gradient-to-r from-purple-500 to-pink-500 transition-all duration-300"
+                                            style={{ width: `${upload.progress}%` }}
+                                          />
+                                        </div>
+                                      )}
+                                      {upload?.status === 'error' && (
+                                        <p className="text-red-300 text-xs mt-1 truncate" title={upload.error}>
+                                          Upload failed: {upload.error} (retried when you start processing)
+                                        </p>
+                                      )}
+                                    </div>
+                                  );
+                                })}
                               </div>
                               <div className="mt-3 text-center">
                                 <div
@@ -784,10 +1194,30 @@ function App() {
                     <p className="text-purple-200 text-sm sm:text-base">Adjust the styling and timing to match your vision</p>
                   </div>
                   
-                  <CustomizationPanel
-                    options={options}
-                    onOptionsChange={setOptions}
-                  />
+                  <div className="grid grid-cols-1 lg:grid-cols-[minmax(0,1fr)_20rem] gap-6 sm:gap-8">
+                    <CustomizationPanel
+                      options={options}
+                      onOptionsChange={setOptions}
+                      videoFile={previewVideo}
+                      preset={preset}
+                      onPresetChange={setPreset}
+                    />
+
+                    {previewVideo && (
+                      <div className="lg:sticky lg:top-4 lg:self-start p-4 bg-white/5 rounded-2xl border border-white/10">
+                        <FramePreview
+                          options={options}
+                          videoFile={previewVideo}
+                          uploadId={uploads[getFileKey(previewVideo)]?.uploadId}
+                          scriptText={processingMode === 'single' ? scriptContent : batchScriptTexts[0] || ''}
+                        />
+                      </div>
+                    )}
+                  </div>
+
+                  <div className="mt-6 sm:mt-8">
+                    <ExportProfilePicker value={exportProfiles} onChange={setExportProfiles} />
+                  </div>
 
                   <div className="flex flex-col sm:flex-row justify-between gap-4 mt-6 sm:mt-8">
                     <button
@@ -798,9 +1228,67 @@ function App() {
                       <span>Back to Upload</span>
                     </button>
                     
+                    <div className="flex flex-col sm:flex-row gap-4">
+                      {processingMode === 'single' && (
+                        <button
+                          onClick={handleOpenEditor}
+                          disabled={!canProcess || isParsing}
+                          className="group bg-white/20 text-white font-semibold py-3 sm:py-4 px-6 sm:px-8 rounded-2xl hover:bg-white/30 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-300 flex items-center justify-center backdrop-blur-sm text-sm sm:text-base"
+                        >
+                          <Scissors className="w-4 h-4 sm:w-5 sm:h-5 mr-2" />
+                          <span>{isParsing ? 'Preparing Timeline...' : 'Edit Timeline'}</span>
+                        </button>
+                      )}
+
+                      <button
+                        onClick={() => handleProcess()}
+                        disabled={!canProcess}
+                        className="group bg-gradient-to-r from-green-600 to-emerald-600 text-white font-semibold py-3 sm:py-4 px-6 sm:px-8 rounded-2xl hover:from-green-700 hover:to-emerald-700 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-300 flex items-center justify-center shadow-2xl hover:shadow-green-500/25 hover:scale-105 text-sm sm:text-base"
+                      >
+                        <Play className="w-4 h-4 sm:w-5 sm:h-5 mr-2" />
+                        <span>Generate Captions</span>
+                      </button>
+                    </div>
+                  </div>
+                </div>
+              </div>
+            )}
+
+            {/* Edit Step */}
+            {currentStep === 'edit' && videoFile && (
+              <div className="transform transition-all duration-700 ease-out">
+                <div className="bg-white/10 backdrop-blur-xl rounded-3xl p-4 sm:p-6 lg:p-8 border border-white/20 shadow-2xl">
+                  <div className="text-center mb-6 sm:mb-8">
+                    <h2 className="text-xl sm:text-2xl lg:text-3xl font-bold text-white mb-2">Fine-Tune Your Timeline</h2>
+                    <p className="text-purple-200 text-sm sm:text-base">Drag subtitle edges, split, merge and edit text before rendering</p>
+                  </div>
+
+                  <TimelineEditor
+                    videoFile={videoFile}
+                    cues={cues}
+                    options={options}
+                    timingMode={cueTimingMode}
+                    onCuesChange={setCues}
+                  />
+
+                  {error && (
+                    <div className="mt-6 p-4 bg-red-500/20 border border-red-300/30 rounded-2xl">
+                      <p className="text-red-200 text-sm sm:text-base">{error}</p>
+                    </div>
+                  )}
+
+                  <div className="flex flex-col sm:flex-row justify-between gap-4 mt-6 sm:mt-8">
+                    <button
+                      onClick={() => setCurrentStep('customize')}
+                      className="group bg-white/20 text-white font-semibold py-3 sm:py-4 px-6 sm:px-8 rounded-2xl hover:bg-white/30 transition-all duration-300 flex items-center justify-center backdrop-blur-sm text-sm sm:text-base"
+                    >
+                      <ArrowLeft className="w-4 h-4 sm:w-5 sm:h-5 mr-2 group-hover:-translate-x-1 transition-transform" />
+                      <span>Back to Customize</span>
+                    </button>
+
                     <button
-                      onClick={handleProcess}
-                      disabled={!canProcess}
+                      onClick={() => handleProcess(cues)}
+                      disabled={cues.length === 0 || getCueProblems(cues).some(Boolean)}
                       className="group bg-gradient-to-r from-green-600 to-emerald-600 text-white font-semibold py-3 sm:py-4 px-6 sm:px-8 rounded-2xl hover:from-green-700 hover:to-emerald-700 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-300 flex items-center justify-center shadow-2xl hover:shadow-green-500/25 hover:scale-105 text-sm sm:text-base"
                     >
                       <Play className="w-4 h-4 sm:w-5 sm:h-5 mr-2" />
@@ -827,6 +1315,43 @@ function App() {
                     progress={progress}
                     status={status}
                   />
+
+                  {Object.keys(pairProgress).length > 0 && (
+                    <div className="mt-6 sm:mt-8 space-y-2 text-left max-w-xl mx-auto">
+                      {Object.values(pairProgress).map(pair => (
+                        <div key={pair.index} className="p-3 bg-white/5 rounded-xl border border-white/10">
+                          <div className="flex items-center justify-between text-xs sm:text-sm mb-1.5">
+                            <span className="text-white font-medium truncate mr-2">{pair.index + 1}. {pair.videoName}</span>
+                            <span className={pair.error ? 'text-red-300' : 'text-purple-200'}>{pair.error ? pair.status : `${pair.progress}%`}</span>
+                          </div>
+                          <div className="w-full bg-white/10 rounded-full h-1.5 overflow-hidden">
+                            <div
+                              className={`h-1.5 rounded-full transition-all duration-500 ${pair.error ? 'bg-red-400' : 'bg-gradient-to-r from-purple-500 to-pink-500'}`}
+                              style={{ width: `${pair.progress}%` }}
+                            />
+                          </div>
+                          {!pair.error && <p className="text-xs text-purple-300 mt-1 truncate">{pair.status}</p>}
+                        </div>
+                      ))}
+                    </div>
+                  )}
+
+                  {error && (
+                    <div className="mt-6 p-4 bg-red-500/20 border border-red-300/30 rounded-2xl">
+                      <p className="text-red-200 text-sm sm:text-base">{error}</p>
+                    </div>
+                  )}
+
+                  <div className="flex justify-center mt-6 sm:mt-8">
+                    <button
+                      onClick={handleCancel}
+                      disabled={!activeJobId || isCancelling}
+                      className="group bg-white/20 text-white font-semibold py-3 sm:py-4 px-6 sm:px-8 rounded-2xl hover:bg-red-500/40 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-300 flex items-center justify-center backdrop-blur-sm text-sm sm:text-base"
+                    >
+                      <XCircle className="w-4 h-4 sm:w-5 sm:h-5 mr-2" />
+                      <span>{isCancelling ? 'Cancelling...' : 'Cancel'}</span>
+                    </button>
+                  </div>
                 </div>
               </div>
             )}
@@ -840,7 +1365,18 @@ function App() {
                     <p className="text-purple-200 text-sm sm:text-base">Preview your captioned video and download when ready</p>
                   </div>
                   
-                  <ResultsDisplay result={result as ProcessingResult} />
+                  {error && (
+                    <div className="mb-6 p-4 bg-red-500/20 border border-red-300/30 rounded-2xl">
+                      <p className="text-red-200 text-sm sm:text-base">{error}</p>
+                    </div>
+                  )}
+
+                  <ResultsDisplay
+                    result={result as ProcessingResult}
+                    videoFile={videoFile}
+                    options={options}
+                    onRerender={handleRerender}
+                  />
 
                   <div className="flex justify-center mt-6 sm:mt-8">
                     <button
@@ -932,31 +1468,65 @@ function App() {
                             </div>
                             
                             {videoResult.success && videoResult.downloadUrl && (
-                              <div className="flex space-x-2">
+                              <div className="flex flex-wrap gap-2">
                                 {videoResult.previewUrl && (
                                   <button
-                                    onClick={() => window.open(`http://localhost:3001${videoResult.previewUrl}`, '_blank')}
+                                    onClick={() => window.open(`${API_BASE_URL}${videoResult.previewUrl}`, '_blank')}
                                     className="px-3 py-2 bg-purple-500/20 hover:bg-purple-500/40 text-purple-200 rounded-xl transition-all duration-300 text-xs sm:text-sm"
                                   >
                                     Preview
                                   </button>
                                 )}
                                 <button
-                                  onClick={() => {
-                                    const link = document.createElement('a');
-                                    link.href = `http://localhost:3001${videoResult.downloadUrl}`;
-                                    link.download = '';
-                                    document.body.appendChild(link);
-                                    link.click();
-                                    document.body.removeChild(link);
-                                  }}
+                                  onClick={() => downloadFile(videoResult.downloadUrl!)}
                                   className="px-3 py-2 bg-green-500/20 hover:bg-green-500/40 text-green-200 rounded-xl transition-all duration-300 text-xs sm:text-sm"
                                 >
                                   Download
                                 </button>
+                                {videoResult.subtitleUrls && Object.entries(videoResult.subtitleUrls).map(([format, url]) => (
+                                  <button
+                                    key={format}
+                                    onClick={() => downloadFile(url)}
+                                    className="px-3 py-2 bg-blue-500/20 hover:bg-blue-500/40 text-blue-200 rounded-xl transition-all duration-300 text-xs sm:text-sm uppercase"
+                                    title={`Download ${format.toUpperCase()} subtitles`}
+                                  >
+                                    {format}
+                                  </button>
+                                ))}
                               </div>
                             )}
                           </div>
+
+                          {videoResult.renditions && videoResult.renditions.length > 0 && (
+                            <div className="mt-4 pt-4 border-t border-white/10 space-y-2">
+                              {videoResult.renditions.map(rendition => (
+                                <div key={rendition.profile} className="flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+                                  <p className={`text-xs sm:text-sm ${rendition.success ? 'text-purple-100' : 'text-red-200'}`}>
+                                    <span className="font-semibold">{rendition.label}</span>
+                                    {rendition.success ? ` • ${rendition.duration}` : ` • ${rendition.error || 'Rendering failed'}`}
+                                  </p>
+                                  {rendition.success && rendition.downloadUrl && (
+                                    <div className="flex flex-wrap gap-2">
+                                      {rendition.previewUrl && (
+                                        <button
+                                          onClick={() => window.open(`${API_BASE_URL}${rendition.previewUrl}`, '_blank')}
+                                          className="px-3 py-1.5 bg-purple-500/20 hover:bg-purple-500/40 text-purple-200 rounded-xl transition-all duration-300 text-xs sm:text-sm"
+                                        >
+                                          Preview
+                                        </button>
+                                      )}
+                                      <button
+                                        onClick={() => downloadFile(rendition.downloadUrl!)}
+                                        className="px-3 py-1.5 bg-green-500/20 hover:bg-green-500/40 text-green-200 rounded-xl transition-all duration-300 text-xs sm:text-sm"
+                                      >
+                                        Download
+                                      </button>
+                                    </div>
+                                  )}
+                                </div>
+                              ))}
+                            </div>
+                          )}
                         </div>
                       ))}
                     </div>
@@ -975,6 +1545,36 @@ function App() {
               </div>
             )}
 
+            {/* History View */}
+            {currentStep === 'history' && (
+              <div className="transform transition-all duration-700 ease-out">
+                <div className="bg-white/10 backdrop-blur-xl rounded-3xl p-4 sm:p-6 lg:p-8 border border-white/20 shadow-2xl">
+                  <div className="text-center mb-6 sm:mb-8">
+                    <h2 className="text-xl sm:text-2xl lg:text-3xl font-bold text-white mb-2">Job History</h2>
+                    <p className="text-purple-200 text-sm sm:text-base">Find, re-download or clean up your previous captioned videos</p>
+                  </div>
+
+                  {error && (
+                    <div className="mb-6 p-4 bg-red-500/20 border border-red-300/30 rounded-2xl">
+                      <p className="text-red-200 text-sm sm:text-base">{error}</p>
+                    </div>
+                  )}
+
+                  <JobHistory onOpenResult={handleOpenJobResult} />
+
+                  <div className="flex justify-center mt-6 sm:mt-8">
+                    <button
+                      onClick={handleToggleHistory}
+                      className="group bg-white/20 text-white font-semibold py-3 sm:py-4 px-6 sm:px-8 rounded-2xl hover:bg-white/30 transition-all duration-300 flex items-center justify-center backdrop-blur-sm text-sm sm:text-base"
+                    >
+                      <ArrowLeft className="w-4 h-4 sm:w-5 sm:h-5 mr-2 group-hover:-translate-x-1 transition-transform" />
+                      <span>Back</span>
+                    </button>
+                  </div>
+                </div>
+              </div>
+            )}
+
           </div>
         </div>
       </div>
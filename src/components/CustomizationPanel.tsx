@@ -1,25 +1,40 @@
-import React from 'react';
-import { Palette, Type, AlignCenter, Clock, Sparkles } from 'lucide-react';
-
-interface CaptionOptions {
-  baseDuration: number;
-  wordDuration: number;
-  splitMode: string;
-  fontColor: string;
-  fontWeight: string;
-  fontSize: number;
-  position: string;
-}
+import React, { useState, useEffect } from 'react';
+import { Palette, Type, AlignCenter, Clock, Sparkles, Layers, PenTool, Square, Highlighter, Film } from 'lucide-react';
+import PresetPicker from './PresetPicker';
+import FontPicker from './FontPicker';
+import LayoutPreview from './LayoutPreview';
+import OutputSettings from './OutputSettings';
+import { SAFE_ZONES } from '../utils/safeZones';
+import { API_BASE_URL } from '../utils/api';
+import type { CaptionOptions, CaptionPreset } from '../types';
 
 interface CustomizationPanelProps {
   options: CaptionOptions;
   onOptionsChange: (options: CaptionOptions) => void;
+  videoFile?: File | null;
+  preset: CaptionPreset | null;
+  onPresetChange: (preset: CaptionPreset | null) => void;
 }
 
 const CustomizationPanel: React.FC<CustomizationPanelProps> = ({
   options,
-  onOptionsChange
+  onOptionsChange,
+  videoFile,
+  preset,
+  onPresetChange
 }) => {
+  // GIF previews need no optional encoder; clip formats are offered once the server reports it can encode them
+  const [availablePreviewFormats, setAvailablePreviewFormats] = useState<string[]>(['gif']);
+
+  useEffect(() => {
+    fetch(`${API_BASE_URL}/api/encoders`)
+      .then(response => response.ok ? response.json() : null)
+      .then(data => {
+        if (data?.previewFormats) setAvailablePreviewFormats(data.previewFormats);
+      })
+      .catch(err => console.error('Error loading preview formats:', err));
+  }, []);
+
   const handleChange = (key: keyof CaptionOptions, value: any) => {
     onOptionsChange({
       ...options,
@@ -27,6 +42,58 @@ const CustomizationPanel: React.FC<CustomizationPanelProps> = ({
     });
   };
 
+  const renderSlider = (key: keyof CaptionOptions, label: string, min: number, max: number, unit = '', step = 1) => (
+    <div className="space-y-2 sm:space-y-3">
+      <label className="block text-sm font-semibold text-purple-200">
+        {label}: {options[key]}{unit}
+      </label>
+      <input
+        type="range"
+        value={options[key] as number}
+        onChange={(e) => handleChange(key, parseFloat(e.target.value))}
+        min={min}
+        max={max}
+        step={step}
+        className="w-full h-3 bg-white/10 rounded-lg appearance-none cursor-pointer slider"
+      />
+    </div>
+  );
+
+  const renderColorInput = (key: keyof CaptionOptions, label: string) => (
+    <div className="space-y-2 sm:space-y-3">
+      <label className="block text-sm font-semibold text-purple-200">
+        {label}
+      </label>
+      <input
+        type="color"
+        value={options[key] as string}
+        onChange={(e) => handleChange(key, e.target.value)}
+        className="w-full h-10 sm:h-12 rounded-xl border border-white/20 cursor-pointer bg-white/10"
+      />
+    </div>
+  );
+
+  // Switching the size unit converts the size so the captions keep roughly the same size
+  // (a pixel on the 288-line reference frame is 1/2.88 % of the frame height)
+  const handleFontSizeUnitChange = (unit: string) => {
+    if (unit === options.fontSizeUnit) return;
+    onOptionsChange({
+      ...options,
+      fontSizeUnit: unit,
+      fontSize: unit === 'percent'
+        ? Math.min(20, Math.max(2, Math.round((options.fontSize / 2.88) * 2) / 2))
+        : Math.min(48, Math.max(12, Math.round(options.fontSize * 2.88)))
+    });
+  };
+
+  // Picking a preset applies its options; clearing it keeps the current settings
+  const handlePresetChange = (selected: CaptionPreset | null) => {
+    onPresetChange(selected);
+    if (selected) {
+      onOptionsChange({ ...options, ...selected.options });
+    }
+  };
+
   const colorOptions = [
     { label: 'Pink', value: '#EC4899', gradient: 'from-pink-500 to-pink-600' },
     { label: 'Purple', value: '#8B5CF6', gradient: 'from-purple-500 to-purple-600' },
@@ -38,8 +105,47 @@ const CustomizationPanel: React.FC<CustomizationPanelProps> = ({
     { label: 'Black', value: '#000000', gradient: 'from-gray-800 to-black' }
   ];
 
+  const timingModes = [
+    { key: 'estimate', label: 'Estimated', description: 'Base duration plus time per word' },
+    { key: 'align', label: 'Align to audio', description: 'Match each subtitle to the spoken voiceover' },
+    { key: 'silence', label: 'Silence detection', description: 'Spread subtitles across the speech between pauses' }
+  ];
+
+  const captionStyles = [
+    { key: 'standard', label: 'Standard', description: 'Each subtitle appears in one color' },
+    { key: 'karaoke', label: 'Karaoke', description: 'Words light up in the highlight color as they are spoken' }
+  ];
+
+  const animations = [
+    { key: 'none', label: 'None' },
+    { key: 'fade', label: 'Fade' },
+    { key: 'pop', label: 'Pop' },
+    { key: 'slide', label: 'Slide up' },
+    { key: 'typewriter', label: 'Typewriter' }
+  ];
+
+  const outputModes = [
+    { key: 'burn', label: 'Burn in', description: 'Captions drawn into the picture (re-encodes)' },
+    { key: 'soft', label: 'Soft track', description: 'Selectable subtitle track, no re-encode' },
+    { key: 'both', label: 'Both', description: 'Burned-in captions plus a selectable track' }
+  ];
+
+  const previewFormats = [
+    { key: 'gif', label: 'GIF', description: 'Silent animated image' },
+    { key: 'mp4', label: 'MP4', description: 'Low-res clip with sound' },
+    { key: 'webm', label: 'WebM', description: 'Low-res clip with sound, smaller' }
+  ].filter(format => availablePreviewFormats.includes(format.key));
+  // The server makes a GIF when the chosen format cannot be encoded
+  const previewFormat = availablePreviewFormats.includes(options.previewFormat) ? options.previewFormat : 'gif';
+
   return (
     <div className="space-y-6 sm:space-y-8">
+      <PresetPicker
+        options={options}
+        preset={preset}
+        onPresetChange={handlePresetChange}
+      />
+
       {/* Timing Settings */}
       <div className="bg-white/5 backdrop-blur-sm rounded-2xl p-4 sm:p-6 border border-white/10">
         <h3 className="text-lg sm:text-xl font-bold text-white mb-4 sm:mb-6 flex items-center">
@@ -48,6 +154,76 @@ const CustomizationPanel: React.FC<CustomizationPanelProps> = ({
           </div>
           Timing Settings
         </h3>
+
+        <div className="space-y-2 sm:space-y-3 mb-4 sm:mb-6">
+          <label className="block text-sm font-semibold text-purple-200">
+            Timing Mode
+          </label>
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-2 sm:gap-3">
+            {timingModes.map((mode) => (
+              <button
+                key={mode.key}
+                onClick={() => handleChange('timingMode', mode.key)}
+                className={`px-3 sm:px-4 py-2 sm:py-3 rounded-xl border transition-all duration-300 text-left text-sm sm:text-base ${
+                  options.timingMode === mode.key
+                    ? 'border-purple-400 bg-gradient-to-r from-purple-500/30 to-pink-500/30 text-white shadow-lg'
+                    : 'border-white/20 bg-white/5 text-purple-200 hover:border-purple-400 hover:bg-purple-500/20'
+                }`}
+              >
+                <span className="block font-semibold">{mode.label}</span>
+                <span className="block text-xs text-purple-300 mt-1">{mode.description}</span>
+              </button>
+            ))}
+          </div>
+          {options.timingMode !== 'estimate' && (
+            <p className="text-xs text-purple-300">
+              Durations below are only used if the audio cannot be analyzed
+            </p>
+          )}
+        </div>
+
+        {options.timingMode === 'silence' && (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4 sm:gap-6 mb-4 sm:mb-6">
+            <div className="space-y-2 sm:space-y-3">
+              <label className="block text-sm font-semibold text-purple-200">
+                Silence Threshold: {options.silenceThreshold}dB
+              </label>
+              <div className="relative">
+                <input
+                  type="range"
+                  value={options.silenceThreshold}
+                  onChange={(e) => handleChange('silenceThreshold', parseInt(e.target.value))}
+                  min="-60"
+                  max="-10"
+                  className="w-full h-3 bg-white/10 rounded-lg appearance-none cursor-pointer slider"
+                />
+                <div className="flex justify-between text-xs sm:text-sm text-purple-300 mt-2">
+                  <span>-60dB</span>
+                  <span className="font-semibold text-white">{options.silenceThreshold}dB</span>
+                  <span>-10dB</span>
+                </div>
+              </div>
+            </div>
+
+            <div className="space-y-2 sm:space-y-3">
+              <label className="block text-sm font-semibold text-purple-200">
+                Min Silence Duration (seconds)
+              </label>
+              <div className="relative">
+                <input
+                  type="number"
+                  value={options.minSilenceDuration}
+                  onChange={(e) => handleChange('minSilenceDuration', parseFloat(e.target.value))}
+                  step="0.1"
+                  min="0.1"
+                  max="5"
+                  className="w-full px-3 sm:px-4 py-2 sm:py-3 bg-white/10 border border-white/20 rounded-xl text-white placeholder-white/50 focus:outline-none focus:ring-2 focus:ring-purple-500 focus:border-transparent transition-all duration-300 text-sm sm:text-base"
+                />
+                <div className="absolute inset-0 bg-gradient-to-r from-purple-500/20 to-pink-500/20 rounded-xl pointer-events-none opacity-0 hover:opacity-100 transition-opacity duration-300"></div>
+              </div>
+            </div>
+          </div>
+        )}
         
         <div className="grid grid-cols-1 md:grid-cols-2 gap-4 sm:gap-6">
           <div className="space-y-2 sm:space-y-3">
@@ -98,25 +274,57 @@ const CustomizationPanel: React.FC<CustomizationPanelProps> = ({
         </h3>
         
         <div className="space-y-4 sm:space-y-6">
+          {/* Burned-in captions can only use fonts installed where the server runs, or uploaded to it */}
+          <FontPicker
+            value={options.fontFamily}
+            onChange={(fontFamily) => handleChange('fontFamily', fontFamily)}
+          />
+
           <div className="space-y-2 sm:space-y-3">
-            <label className="block text-sm font-semibold text-purple-200">
-              Font Size: {options.fontSize}px
-            </label>
+            <div className="flex items-center justify-between">
+              <label className="block text-sm font-semibold text-purple-200">
+                Font Size: {options.fontSize}{options.fontSizeUnit === 'percent' ? '% of frame height' : 'px'}
+              </label>
+              <div className="flex gap-1">
+                {[
+                  { key: 'px', label: 'px' },
+                  { key: 'percent', label: '% height' }
+                ].map((unit) => (
+                  <button
+                    key={unit.key}
+                    onClick={() => handleFontSizeUnitChange(unit.key)}
+                    className={`px-2 py-1 rounded-lg border transition-all duration-300 text-xs ${
+                      options.fontSizeUnit === unit.key
+                        ? 'border-purple-400 bg-purple-500/30 text-white'
+                        : 'border-white/20 bg-white/5 text-purple-200 hover:bg-purple-500/20'
+                    }`}
+                  >
+                    {unit.label}
+                  </button>
+                ))}
+              </div>
+            </div>
             <div className="relative">
               <input
                 type="range"
                 value={options.fontSize}
-                onChange={(e) => handleChange('fontSize', parseInt(e.target.value))}
-                min="12"
-                max="48"
+                onChange={(e) => handleChange('fontSize', parseFloat(e.target.value))}
+                min={options.fontSizeUnit === 'percent' ? 2 : 12}
+                max={options.fontSizeUnit === 'percent' ? 20 : 48}
+                step={options.fontSizeUnit === 'percent' ? 0.5 : 1}
                 className="w-full h-3 bg-white/10 rounded-lg appearance-none cursor-pointer slider"
               />
               <div className="flex justify-between text-xs sm:text-sm text-purple-300 mt-2">
-                <span>12px</span>
-                <span className="font-semibold text-white">{options.fontSize}px</span>
-                <span>48px</span>
+                <span>{options.fontSizeUnit === 'percent' ? '2%' : '12px'}</span>
+                <span className="font-semibold text-white">{options.fontSize}{options.fontSizeUnit === 'percent' ? '%' : 'px'}</span>
+                <span>{options.fontSizeUnit === 'percent' ? '20%' : '48px'}</span>
               </div>
             </div>
+            <p className="text-xs text-purple-300">
+              {options.fontSizeUnit === 'percent'
+                ? 'Text height follows the video: the same share of the frame on landscape and vertical clips'
+                : 'Pixels on a 288-pixel-high reference frame, scaled to the video height'}
+            </p>
           </div>
           
           <div className="space-y-2 sm:space-y-3">
@@ -139,6 +347,30 @@ const CustomizationPanel: React.FC<CustomizationPanelProps> = ({
               ))}
             </div>
           </div>
+
+          <div className="space-y-2 sm:space-y-3">
+            <label className="block text-sm font-semibold text-purple-200">
+              Font Style
+            </label>
+            <div className="grid grid-cols-2 gap-2 sm:gap-3">
+              {([
+                { key: 'italic', label: 'Italic', className: 'italic' },
+                { key: 'underline', label: 'Underline', className: 'underline' }
+              ] as const).map((style) => (
+                <button
+                  key={style.key}
+                  onClick={() => handleChange(style.key, !options[style.key])}
+                  className={`px-3 sm:px-4 py-2 sm:py-3 rounded-xl border transition-all duration-300 font-semibold text-sm sm:text-base ${style.className} ${
+                    options[style.key]
+                      ? 'border-purple-400 bg-gradient-to-r from-purple-500/30 to-pink-500/30 text-white shadow-lg'
+                      : 'border-white/20 bg-white/5 text-purple-200 hover:border-purple-400 hover:bg-purple-500/20'
+                  }`}
+                >
+                  {style.label}
+                </button>
+              ))}
+            </div>
+          </div>
         </div>
       </div>
 
@@ -194,7 +426,134 @@ const CustomizationPanel: React.FC<CustomizationPanelProps> = ({
               <div className="absolute inset-0 bg-gradient-to-r from-purple-500/20 to-pink-500/20 rounded-xl pointer-events-none opacity-0 hover:opacity-100 transition-opacity duration-300"></div>
             </div>
           </div>
+
+          {renderSlider('fontOpacity', 'Text Opacity', 0, 100, '%')}
+        </div>
+      </div>
+
+      {/* Caption Style */}
+      <div className="bg-white/5 backdrop-blur-sm rounded-2xl p-4 sm:p-6 border border-white/10">
+        <h3 className="text-lg sm:text-xl font-bold text-white mb-4 sm:mb-6 flex items-center">
+          <div className="p-1.5 sm:p-2 bg-gradient-to-r from-yellow-400 to-amber-500 rounded-xl mr-2 sm:mr-3">
+            <Highlighter className="w-4 h-4 sm:w-5 sm:h-5 text-white" />
+          </div>
+          Caption Style
+        </h3>
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-2 sm:gap-3">
+          {captionStyles.map((style) => (
+            <button
+              key={style.key}
+              onClick={() => handleChange('captionStyle', style.key)}
+              className={`px-3 sm:px-4 py-2 sm:py-3 rounded-xl border transition-all duration-300 text-left text-sm sm:text-base ${
+                options.captionStyle === style.key
+                  ? 'border-purple-400 bg-gradient-to-r from-purple-500/30 to-pink-500/30 text-white shadow-lg'
+                  : 'border-white/20 bg-white/5 text-purple-200 hover:border-purple-400 hover:bg-purple-500/20'
+              }`}
+            >
+              <span className="block font-semibold">{style.label}</span>
+              <span className="block text-xs text-purple-300 mt-1">{style.description}</span>
+            </button>
+          ))}
+        </div>
+
+        {options.captionStyle === 'karaoke' && (
+          <div className="mt-4 sm:mt-6 space-y-3">
+            {renderColorInput('highlightColor', 'Highlight Color')}
+            <p className="text-xs text-purple-300">
+              Word timing follows the audio alignment when it times words, otherwise each subtitle's time is shared out by word length.
+              Highlighting is burned in and kept in the ASS download and MKV tracks; other subtitle files show plain text
+            </p>
+          </div>
+        )}
+
+        <div className="space-y-2 sm:space-y-3 mt-4 sm:mt-6">
+          <label className="block text-sm font-semibold text-purple-200">
+            Animation
+          </label>
+          <div className="grid grid-cols-2 sm:grid-cols-5 gap-2 sm:gap-3">
+            {animations.map((animation) => (
+              <button
+                key={animation.key}
+                onClick={() => handleChange('animation', animation.key)}
+                className={`px-3 sm:px-4 py-2 sm:py-3 rounded-xl border transition-all duration-300 font-semibold text-sm sm:text-base ${
+                  options.animation === animation.key
+                    ? 'border-purple-400 bg-gradient-to-r from-purple-500/30 to-pink-500/30 text-white shadow-lg'
+                    : 'border-white/20 bg-white/5 text-purple-200 hover:border-purple-400 hover:bg-purple-500/20'
+                }`}
+              >
+                {animation.label}
+              </button>
+            ))}
+          </div>
+          {options.animation !== 'none' && (
+            <p className="text-xs text-purple-300">
+              Animations are burned in and shown in the preview GIF; the ASS download and MKV tracks keep them, other subtitle files are static
+            </p>
+          )}
+        </div>
+      </div>
+
+      {/* Outline & Shadow */}
+      <div className="bg-white/5 backdrop-blur-sm rounded-2xl p-4 sm:p-6 border border-white/10">
+        <h3 className="text-lg sm:text-xl font-bold text-white mb-4 sm:mb-6 flex items-center">
+          <div className="p-1.5 sm:p-2 bg-gradient-to-r from-slate-500 to-gray-600 rounded-xl mr-2 sm:mr-3">
+            <PenTool className="w-4 h-4 sm:w-5 sm:h-5 text-white" />
+          </div>
+          Outline & Shadow
+        </h3>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4 sm:gap-6">
+          <div className="space-y-4">
+            {renderColorInput('outlineColor', 'Outline Color')}
+            {renderSlider('outlineWidth', options.backgroundBox ? 'Outline Width (box padding)' : 'Outline Width', 0, 10, '', 0.5)}
+            {renderSlider('outlineOpacity', 'Outline Opacity', 0, 100, '%')}
+          </div>
+          <div className="space-y-4">
+            {renderColorInput('shadowColor', 'Shadow Color')}
+            {renderSlider('shadowDepth', 'Shadow Depth', 0, 10, '', 0.5)}
+            {renderSlider('shadowOpacity', 'Shadow Opacity', 0, 100, '%')}
+          </div>
+        </div>
+        {options.backgroundBox && (
+          <p className="text-xs text-purple-300 mt-3">
+            With a background box the text has no separate outline; the outline width pads the box instead
+          </p>
+        )}
+      </div>
+
+      {/* Background Box */}
+      <div className="bg-white/5 backdrop-blur-sm rounded-2xl p-4 sm:p-6 border border-white/10">
+        <div className="flex items-center justify-between mb-4 sm:mb-6">
+          <h3 className="text-lg sm:text-xl font-bold text-white flex items-center">
+            <div className="p-1.5 sm:p-2 bg-gradient-to-r from-gray-700 to-black rounded-xl mr-2 sm:mr-3">
+              <Square className="w-4 h-4 sm:w-5 sm:h-5 text-white" />
+            </div>
+            Background Box
+          </h3>
+          <button
+            onClick={() => handleChange('backgroundBox', !options.backgroundBox)}
+            className={`relative w-12 h-6 rounded-full transition-all duration-300 ${
+              options.backgroundBox ? 'bg-gradient-to-r from-purple-500 to-pink-500' : 'bg-white/20'
+            }`}
+            title={options.backgroundBox ? 'Turn background box off' : 'Turn background box on'}
+          >
+            <span className={`absolute top-1 w-4 h-4 bg-white rounded-full transition-all duration-300 ${
+              options.backgroundBox ? 'left-7' : 'left-1'
+            }`} />
+          </button>
         </div>
+
+        {options.backgroundBox ? (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4 sm:gap-6">
+            {renderColorInput('backgroundColor', 'Box Color')}
+            {renderSlider('backgroundOpacity', 'Box Opacity', 0, 100, '%')}
+          </div>
+        ) : (
+          <p className="text-xs sm:text-sm text-purple-300">
+            Draw an opaque box behind each caption for readability on busy footage
+          </p>
+        )}
       </div>
 
       {/* Position Settings */}
@@ -206,26 +565,162 @@ const CustomizationPanel: React.FC<CustomizationPanelProps> = ({
           Position Settings
         </h3>
         
-        <div className="grid grid-cols-3 gap-2 sm:gap-3">
-          {[
-            { key: 'top', label: 'Top', icon: '⬆️' },
-            { key: 'center', label: 'Center', icon: '⏺️' },
-            { key: 'bottom', label: 'Bottom', icon: '⬇️' }
-          ].map((position) => (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4 sm:gap-6">
+          <div className="space-y-4">
+            <div className="grid grid-cols-3 gap-2 sm:gap-3">
+              {[
+                { key: 'top-left', label: 'Top left', icon: '↖️' },
+                { key: 'top', label: 'Top', icon: '⬆️' },
+                { key: 'top-right', label: 'Top right', icon: '↗️' },
+                { key: 'left', label: 'Left', icon: '⬅️' },
+                { key: 'center', label: 'Center', icon: '⏺️' },
+                { key: 'right', label: 'Right', icon: '➡️' },
+                { key: 'bottom-left', label: 'Bottom left', icon: '↙️' },
+                { key: 'bottom', label: 'Bottom', icon: '⬇️' },
+                { key: 'bottom-right', label: 'Bottom right', icon: '↘️' }
+              ].map((position) => (
+                <button
+                  key={position.key}
+                  onClick={() => handleChange('position', position.key)}
+                  className={`px-2 sm:px-3 py-2 sm:py-3 rounded-xl border transition-all duration-300 font-semibold flex flex-col items-center space-y-1 text-xs sm:text-sm ${
+                    options.position === position.key
+                      ? 'border-purple-400 bg-gradient-to-r from-purple-500/30 to-pink-500/30 text-white shadow-lg transform scale-105'
+                      : 'border-white/20 bg-white/5 text-purple-200 hover:border-purple-400 hover:bg-purple-500/20 hover:scale-105'
+                  }`}
+                  title={position.label}
+                >
+                  <span className="text-base sm:text-lg">{position.icon}</span>
+                  <span>{position.label}</span>
+                </button>
+              ))}
+            </div>
+
+            {renderSlider('offsetX', 'Horizontal Offset', -50, 50, '%')}
+            {renderSlider('offsetY', 'Vertical Offset', -50, 50, '%')}
+
+            <div className="space-y-2 sm:space-y-3">
+              <label className="block text-sm font-semibold text-purple-200">
+                Platform Safe Zone
+              </label>
+              <select
+                value={options.safeZone}
+                onChange={(e) => handleChange('safeZone', e.target.value)}
+                className="w-full px-3 sm:px-4 py-2 sm:py-3 bg-white/10 border border-white/20 rounded-xl text-white focus:outline-none focus:ring-2 focus:ring-purple-500 focus:border-transparent transition-all duration-300 cursor-pointer text-sm sm:text-base"
+              >
+                <option value="none" className="bg-gray-800">None</option>
+                {Object.entries(SAFE_ZONES).map(([key, zone]) => (
+                  <option key={key} value={key} className="bg-gray-800">{zone.label}</option>
+                ))}
+              </select>
+              <p className="text-xs text-purple-300">
+                Keeps captions clear of the platform's buttons and text; margins never go below the zone
+              </p>
+            </div>
+          </div>
+
+          <LayoutPreview options={options} videoFile={videoFile} />
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4 sm:gap-6 mt-4 sm:mt-6">
+          {renderSlider('marginH', 'Horizontal Margin', 0, 150)}
+          {renderSlider('marginV', 'Vertical Margin', 0, 150)}
+        </div>
+        <p className="text-xs text-purple-300 mt-3">
+          Margins are pixels on a 288-pixel-high reference frame, scaled to the video; offsets are a percentage of the frame and move the caption right and down
+        </p>
+      </div>
+
+      {/* Output Mode */}
+      <div className="bg-white/5 backdrop-blur-sm rounded-2xl p-4 sm:p-6 border border-white/10">
+        <h3 className="text-lg sm:text-xl font-bold text-white mb-4 sm:mb-6 flex items-center">
+          <div className="p-1.5 sm:p-2 bg-gradient-to-r from-indigo-500 to-purple-500 rounded-xl mr-2 sm:mr-3">
+            <Layers className="w-4 h-4 sm:w-5 sm:h-5 text-white" />
+          </div>
+          Output Mode
+        </h3>
+
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-2 sm:gap-3">
+          {outputModes.map((mode) => (
+            <button
+              key={mode.key}
+              onClick={() => handleChange('outputMode', mode.key)}
+              className={`px-3 sm:px-4 py-2 sm:py-3 rounded-xl border transition-all duration-300 text-left text-sm sm:text-base ${
+                options.outputMode === mode.key
+                  ? 'border-purple-400 bg-gradient-to-r from-purple-500/30 to-pink-500/30 text-white shadow-lg'
+                  : 'border-white/20 bg-white/5 text-purple-200 hover:border-purple-400 hover:bg-purple-500/20'
+              }`}
+            >
+              <span className="block font-semibold">{mode.label}</span>
+              <span className="block text-xs text-purple-300 mt-1">{mode.description}</span>
+            </button>
+          ))}
+        </div>
+        {options.outputMode === 'soft' && (
+          <p className="text-xs text-purple-300 mt-3">
+            Style settings apply to the ASS download and to MKV output, used for any source that is not MP4 or MOV; MP4 and MOV players use their own subtitle style
+          </p>
+        )}
+      </div>
+
+      <OutputSettings options={options} onOptionsChange={onOptionsChange} />
+
+      {/* Result Preview */}
+      <div className="bg-white/5 backdrop-blur-sm rounded-2xl p-4 sm:p-6 border border-white/10">
+        <h3 className="text-lg sm:text-xl font-bold text-white mb-4 sm:mb-6 flex items-center">
+          <div className="p-1.5 sm:p-2 bg-gradient-to-r from-rose-500 to-orange-500 rounded-xl mr-2 sm:mr-3">
+            <Film className="w-4 h-4 sm:w-5 sm:h-5 text-white" />
+          </div>
+          Result Preview
+        </h3>
+
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-2 sm:gap-3">
+          {previewFormats.map((format) => (
             <button
-              key={position.key}
-              onClick={() => handleChange('position', position.key)}
-              className={`px-3 sm:px-4 py-3 sm:py-4 rounded-xl border transition-all duration-300 font-semibold flex flex-col items-center space-y-1 sm:space-y-2 text-sm sm:text-base ${
-                options.position === position.key
-                  ? 'border-purple-400 bg-gradient-to-r from-purple-500/30 to-pink-500/30 text-white shadow-lg transform scale-105'
-                  : 'border-white/20 bg-white/5 text-purple-200 hover:border-purple-400 hover:bg-purple-500/20 hover:scale-105'
+              key={format.key}
+              onClick={() => handleChange('previewFormat', format.key)}
+              className={`px-3 sm:px-4 py-2 sm:py-3 rounded-xl border transition-all duration-300 text-left text-sm sm:text-base ${
+                previewFormat === format.key
+                  ? 'border-purple-400 bg-gradient-to-r from-purple-500/30 to-pink-500/30 text-white shadow-lg'
+                  : 'border-white/20 bg-white/5 text-purple-200 hover:border-purple-400 hover:bg-purple-500/20'
               }`}
             >
-              <span className="text-lg sm:text-xl lg:text-2xl">{position.icon}</span>
-              <span>{position.label}</span>
+              <span className="block font-semibold">{format.label}</span>
+              <span className="block text-xs text-purple-300 mt-1">{format.description}</span>
             </button>
           ))}
         </div>
+
+        <div className="space-y-4 mt-4 sm:mt-6">
+          <div className="space-y-2 sm:space-y-3">
+            <label className="block text-sm font-semibold text-purple-200">
+              Preview Start
+            </label>
+            <div className="grid grid-cols-2 gap-2 sm:gap-3">
+              {[
+                { key: 'auto', label: 'First caption', value: -1 },
+                { key: 'custom', label: 'Custom', value: 0 }
+              ].map((mode) => (
+                <button
+                  key={mode.key}
+                  onClick={() => handleChange('previewStart', mode.value)}
+                  className={`px-3 sm:px-4 py-2 sm:py-3 rounded-xl border transition-all duration-300 font-semibold text-sm sm:text-base ${
+                    (options.previewStart < 0) === (mode.value < 0)
+                      ? 'border-purple-400 bg-gradient-to-r from-purple-500/30 to-pink-500/30 text-white shadow-lg'
+                      : 'border-white/20 bg-white/5 text-purple-200 hover:border-purple-400 hover:bg-purple-500/20'
+                  }`}
+                >
+                  {mode.label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {options.previewStart >= 0 && renderSlider('previewStart', 'Start At', 0, 120, 's', 0.5)}
+          {renderSlider('previewDuration', 'Preview Length', 1, 15, 's')}
+          <p className="text-xs text-purple-300">
+            The preview on the results screen shows this part of the video with the captions burned in; a start past the end of the video moves back to fit
+          </p>
+        </div>
       </div>
 
       {/* Split Mode */}
@@ -246,9 +741,70 @@ const CustomizationPanel: React.FC<CustomizationPanelProps> = ({
             <option value="line" className="bg-gray-800">One line per subtitle</option>
             <option value="sentence" className="bg-gray-800">One sentence per subtitle</option>
             <option value="paragraph" className="bg-gray-800">One paragraph per subtitle</option>
+            <option value="characters" className="bg-gray-800">Sentences wrapped to max characters</option>
           </select>
           <div className="absolute inset-0 bg-gradient-to-r from-purple-500/20 to-pink-500/20 rounded-xl pointer-events-none opacity-0 hover:opacity-100 transition-opacity duration-300"></div>
         </div>
+
+        {options.splitMode === 'characters' && (
+          <div className="space-y-2 sm:space-y-3 mt-4 sm:mt-6">
+            <label className="block text-sm font-semibold text-purple-200">
+              Max Characters per Subtitle
+            </label>
+            <div className="relative">
+              <input
+                type="number"
+                value={options.maxChars}
+                onChange={(e) => handleChange('maxChars', parseInt(e.target.value))}
+                step="1"
+                min="10"
+                max="200"
+                className="w-full px-3 sm:px-4 py-2 sm:py-3 bg-white/10 border border-white/20 rounded-xl text-white placeholder-white/50 focus:outline-none focus:ring-2 focus:ring-purple-500 focus:border-transparent transition-all duration-300 text-sm sm:text-base"
+              />
+              <div className="absolute inset-0 bg-gradient-to-r from-purple-500/20 to-pink-500/20 rounded-xl pointer-events-none opacity-0 hover:opacity-100 transition-opacity duration-300"></div>
+            </div>
+            <p className="text-xs text-purple-300">
+              Sentences longer than this are split into several subtitles at word boundaries
+            </p>
+          </div>
+        )}
+
+        <div className="space-y-4 mt-4 sm:mt-6">
+          <div className="space-y-2 sm:space-y-3">
+            <label className="block text-sm font-semibold text-purple-200">
+              Characters per Line
+            </label>
+            <div className="grid grid-cols-2 gap-2 sm:gap-3">
+              {[
+                { key: 'auto', label: 'Auto', value: 0 },
+                { key: 'custom', label: 'Custom', value: 42 }
+              ].map((mode) => (
+                <button
+                  key={mode.key}
+                  onClick={() => handleChange('maxLineChars', mode.value)}
+                  className={`px-3 sm:px-4 py-2 sm:py-3 rounded-xl border transition-all duration-300 font-semibold text-sm sm:text-base ${
+                    (options.maxLineChars === 0) === (mode.value === 0)
+                      ? 'border-purple-400 bg-gradient-to-r from-purple-500/30 to-pink-500/30 text-white shadow-lg'
+                      : 'border-white/20 bg-white/5 text-purple-200 hover:border-purple-400 hover:bg-purple-500/20'
+                  }`}
+                >
+                  {mode.label}
+                </button>
+              ))}
+            </div>
+            {options.maxLineChars === 0 && (
+              <p className="text-xs text-purple-300">
+                Picked from the video's aspect ratio (42 widescreen, 32 square, 24 vertical), fewer when the font is too large to fit
+              </p>
+            )}
+          </div>
+
+          {options.maxLineChars > 0 && renderSlider('maxLineChars', 'Characters per Line', 10, 80)}
+          {renderSlider('maxLines', 'Max Lines per Subtitle', 1, 4)}
+          <p className="text-xs text-purple-300">
+            Long subtitles are wrapped onto lines of this length; text beyond the max lines moves to extra subtitles sharing the original's time
+          </p>
+        </div>
       </div>
     </div>
   );
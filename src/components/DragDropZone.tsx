@@ -1,5 +1,6 @@
 import React, { useState, useCallback } from 'react';
-import { DivideIcon as LucideIcon, CheckCircle, X } from 'lucide-react';
+import { DivideIcon as LucideIcon, CheckCircle, X, AlertCircle } from 'lucide-react';
+import type { FileUpload } from '../types';
 
 interface DragDropZoneProps {
   onFileUpload: (files: FileList) => void;
@@ -8,6 +9,7 @@ interface DragDropZoneProps {
   title: string;
   description: string;
   file: File | null;
+  upload?: FileUpload;
   onFileDeselect?: () => void;
 }
 
@@ -18,6 +20,7 @@ const DragDropZone: React.FC<DragDropZoneProps> = ({
   title,
   description,
   file,
+  upload,
   onFileDeselect
 }) => {
   const [isDragging, setIsDragging] = useState(false);
@@ -116,10 +119,27 @@ const DragDropZone: React.FC<DragDropZoneProps> = ({
             <div className="space-y-1 sm:space-y-2">
               <p className="font-semibold text-green-300 truncate max-w-32 sm:max-w-48 text-sm sm:text-base">{file.name}</p>
               <p className="text-xs sm:text-sm text-green-200">{formatFileSize(file.size)}</p>
-              <div className="inline-flex items-center px-2 sm:px-3 py-1 rounded-full bg-green-500/20 border border-green-300/30">
-                <CheckCircle className="w-3 h-3 sm:w-4 sm:h-4 text-green-300 mr-1 sm:mr-2" />
-                <span className="text-xs sm:text-sm text-green-300 font-medium">File uploaded</span>
-              </div>
+              {upload?.status === 'uploading' ? (
+                <div className="space-y-1.5">
+                  <div className="w-32 sm:w-48 mx-auto bg-white/10 rounded-full h-1.5 overflow-hidden">
+                    <div
+                      className="h-1.5 rounded-full bg-gradient-to-r from-purple-500 to-pink-500 transition-all duration-300"
+                      style={{ width: `${upload.progress}%` }}
+                    />
+                  </div>
+                  <span className="text-xs sm:text-sm text-purple-200 font-medium">Uploading... {upload.progress}%</span>
+                </div>
+              ) : upload?.status === 'error' ? (
+                <div className="inline-flex items-center px-2 sm:px-3 py-1 rounded-full bg-red-500/20 border border-red-300/30" title={upload.error}>
+                  <AlertCircle className="w-3 h-3 sm:w-4 sm:h-4 text-red-300 mr-1 sm:mr-2" />
+                  <span className="text-xs sm:text-sm text-red-300 font-medium">Upload failed, retried on processing</span>
+                </div>
+              ) : (
+                <div className="inline-flex items-center px-2 sm:px-3 py-1 rounded-full bg-green-500/20 border border-green-300/30">
+                  <CheckCircle className="w-3 h-3 sm:w-4 sm:h-4 text-green-300 mr-1 sm:mr-2" />
+                  <span className="text-xs sm:text-sm text-green-300 font-medium">File uploaded</span>
+                </div>
+              )}
             </div>
           ) : (
             <div className="space-y-1 sm:space-y-2">
@@ -0,0 +1,68 @@
+import React, { useState, useEffect } from 'react';
+import { Share2, Check } from 'lucide-react';
+import { API_BASE_URL } from '../utils/api';
+import type { ExportProfile } from '../types';
+
+interface ExportProfilePickerProps {
+  value: string[];
+  onChange: (profileIds: string[]) => void;
+}
+
+const ExportProfilePicker: React.FC<ExportProfilePickerProps> = ({ value, onChange }) => {
+  const [profiles, setProfiles] = useState<ExportProfile[]>([]);
+
+  useEffect(() => {
+    fetch(`${API_BASE_URL}/api/export-profiles`)
+      .then(response => response.ok ? response.json() : null)
+      .then(data => {
+        if (data) setProfiles(data.profiles);
+      })
+      .catch(err => console.error('Error loading export profiles:', err));
+  }, []);
+
+  const toggleProfile = (profileId: string) => {
+    onChange(value.includes(profileId) ? value.filter(id => id !== profileId) : [...value, profileId]);
+  };
+
+  if (profiles.length === 0) return null;
+
+  return (
+    <div className="bg-white/5 backdrop-blur-sm rounded-2xl p-4 sm:p-6 border border-white/10">
+      <h3 className="text-lg sm:text-xl font-bold text-white mb-2 flex items-center">
+        <div className="p-1.5 sm:p-2 bg-gradient-to-r from-sky-500 to-indigo-500 rounded-xl mr-2 sm:mr-3">
+          <Share2 className="w-4 h-4 sm:w-5 sm:h-5 text-white" />
+        </div>
+        Platform Exports
+      </h3>
+      <p className="text-xs sm:text-sm text-purple-300 mb-4 sm:mb-6">
+        Each platform picked gets its own H.264 MP4 alongside the main video, resized for the platform with captions kept inside its safe zone
+      </p>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-2 sm:gap-3">
+        {profiles.map(profile => {
+          const isSelected = value.includes(profile.id);
+
+          return (
+            <button
+              key={profile.id}
+              onClick={() => toggleProfile(profile.id)}
+              className={`px-3 sm:px-4 py-2 sm:py-3 rounded-xl border transition-all duration-300 text-left text-sm sm:text-base ${
+                isSelected
+                  ? 'border-purple-400 bg-gradient-to-r from-purple-500/30 to-pink-500/30 text-white shadow-lg'
+                  : 'border-white/20 bg-white/5 text-purple-200 hover:border-purple-400 hover:bg-purple-500/20'
+              }`}
+            >
+              <span className="flex items-center font-semibold">
+                {isSelected && <Check className="w-4 h-4 mr-1.5 flex-shrink-0" />}
+                {profile.label}
+              </span>
+              <span className="block text-xs text-purple-300 mt-1">{profile.description}</span>
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default ExportProfilePicker;
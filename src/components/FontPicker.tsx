@@ -0,0 +1,176 @@
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { Upload, Trash2, Check } from 'lucide-react';
+import { API_BASE_URL } from '../utils/api';
+import type { CustomFont } from '../types';
+
+interface FontPickerProps {
+  value: string;
+  onChange: (fontFamily: string) => void;
+}
+
+const SAMPLE_TEXT = 'The quick brown fox jumps over the lazy dog';
+
+// Uploaded fonts are not installed in the browser; register them so samples render in the real face
+const registerFont = async (font: CustomFont) => {
+  if (!('fonts' in document)) return;
+  try {
+    const face = new FontFace(font.family, `url(${API_BASE_URL}${font.url})`);
+    document.fonts.add(await face.load());
+  } catch (err) {
+    console.error(`Error loading font ${font.family}:`, err);
+  }
+};
+
+const FontPicker: React.FC<FontPickerProps> = ({ value, onChange }) => {
+  const [installedFonts, setInstalledFonts] = useState<string[]>([]);
+  const [customFonts, setCustomFonts] = useState<CustomFont[]>([]);
+  const [isUploading, setIsUploading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const uploadInputRef = useRef<HTMLInputElement>(null);
+
+  const loadFonts = useCallback(async () => {
+    try {
+      const response = await fetch(`${API_BASE_URL}/api/fonts`);
+      if (!response.ok) {
+        throw new Error('Failed to load fonts');
+      }
+      const data = await response.json();
+      setInstalledFonts(data.fonts);
+      setCustomFonts(data.customFonts);
+      data.customFonts.forEach(registerFont);
+    } catch (err) {
+      console.error('Error loading fonts:', err);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadFonts();
+  }, [loadFonts]);
+
+  const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setIsUploading(true);
+    setError(null);
+    try {
+      const formData = new FormData();
+      formData.append('font', file);
+      const response = await fetch(`${API_BASE_URL}/api/fonts`, { method: 'POST', body: formData });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Font upload failed');
+      }
+      await loadFonts();
+      onChange(data.family);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Font upload failed');
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const handleDelete = async (font: CustomFont) => {
+    if (!window.confirm(`Remove ${font.family} (${font.fileName}) from the font library?`)) return;
+
+    setError(null);
+    try {
+      const response = await fetch(`${API_BASE_URL}/api/fonts/${encodeURIComponent(font.id)}`, { method: 'DELETE' });
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to remove font');
+      }
+      await loadFonts();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to remove font');
+    }
+  };
+
+  // Several files (weights, italics) can share a family; the picker lists each family once
+  const customFamilies = [...new Set(customFonts.map(font => font.family))];
+  const families = [...customFamilies, ...installedFonts.filter(font => !customFamilies.includes(font))];
+  if (!families.includes(value)) {
+    families.unshift(value);
+  }
+
+  return (
+    <div className="space-y-2 sm:space-y-3">
+      <div className="flex items-center justify-between">
+        <label className="block text-sm font-semibold text-purple-200">
+          Font Family
+        </label>
+        <button
+          onClick={() => uploadInputRef.current?.click()}
+          disabled={isUploading}
+          className="px-2.5 sm:px-3 py-1.5 bg-white/10 hover:bg-white/20 text-white rounded-lg transition-all duration-300 text-xs sm:text-sm flex items-center disabled:opacity-50"
+          title="Upload a TTF or OTF font"
+        >
+          <Upload className="w-3.5 h-3.5 mr-1" />
+          {isUploading ? 'Uploading...' : 'Upload Font'}
+        </button>
+        <input
+          ref={uploadInputRef}
+          type="file"
+          accept=".ttf,.otf"
+          onChange={handleUpload}
+          className="hidden"
+        />
+      </div>
+
+      <div className="p-3 sm:p-4 bg-black/30 rounded-xl border border-white/10 text-center">
+        <p className="text-white text-lg sm:text-xl truncate" style={{ fontFamily: `"${value}"` }}>
+          {SAMPLE_TEXT}
+        </p>
+      </div>
+
+      <div className="max-h-56 overflow-y-auto custom-scrollbar space-y-1 pr-1">
+        {families.map(family => {
+          const uploaded = customFonts.filter(font => font.family === family);
+
+          return (
+            <div
+              key={family}
+              className={`flex items-center justify-between px-3 py-2 rounded-lg border transition-all duration-300 ${
+                value === family
+                  ? 'border-purple-400 bg-gradient-to-r from-purple-500/30 to-pink-500/30'
+                  : 'border-transparent bg-white/5 hover:bg-purple-500/20'
+              }`}
+            >
+              <button
+                onClick={() => onChange(family)}
+                className="flex-1 min-w-0 flex items-center text-left"
+              >
+                {value === family && <Check className="w-4 h-4 text-white mr-2 flex-shrink-0" />}
+                <span className="text-white text-sm sm:text-base truncate" style={{ fontFamily: `"${family}"` }}>
+                  {family}
+                </span>
+                {uploaded.length > 0 && (
+                  <span className="ml-2 px-1.5 py-0.5 rounded bg-purple-500/30 text-purple-100 text-[10px] uppercase tracking-wide flex-shrink-0">
+                    Uploaded
+                  </span>
+                )}
+              </button>
+              {uploaded.map(font => (
+                <button
+                  key={font.id}
+                  onClick={() => handleDelete(font)}
+                  className="p-1 ml-1 bg-red-500/20 hover:bg-red-500/40 rounded-full transition-all duration-300 flex-shrink-0"
+                  title={`Remove ${font.fileName}`}
+                >
+                  <Trash2 className="w-3 h-3 text-red-300" />
+                </button>
+              ))}
+            </div>
+          );
+        })}
+      </div>
+
+      {error && (
+        <p className="text-xs sm:text-sm text-red-300">{error}</p>
+      )}
+    </div>
+  );
+};
+
+export default FontPicker;
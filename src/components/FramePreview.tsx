@@ -0,0 +1,158 @@
+import React, { useState, useEffect } from 'react';
+import { Image as ImageIcon, Loader2 } from 'lucide-react';
+import { API_BASE_URL } from '../utils/api';
+import { segmentScript } from '../utils/segmentation';
+import type { CaptionOptions } from '../types';
+
+interface FramePreviewProps {
+  options: CaptionOptions;
+  videoFile?: File | null;
+  uploadId?: string;
+  scriptText: string;
+}
+
+// Wait for the options to settle before asking the server for a new frame
+const DEBOUNCE_MS = 400;
+
+const SAMPLE_CAPTION = 'Your caption appears here';
+
+const formatTime = (seconds: number) => {
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}:${(seconds % 60).toFixed(1).padStart(4, '0')}`;
+};
+
+// The caption shown at `time` by the estimated timing (base duration plus time per word);
+// past the end of the script the last cue is shown
+const getCaptionAt = (segments: string[], options: CaptionOptions, time: number) => {
+  let elapsed = 0;
+  for (const text of segments) {
+    elapsed += options.baseDuration + text.split(/\s+/).length * options.wordDuration;
+    if (time < elapsed) return text;
+  }
+  return segments[segments.length - 1] || SAMPLE_CAPTION;
+};
+
+const FramePreview: React.FC<FramePreviewProps> = ({ options, videoFile, uploadId, scriptText }) => {
+  const [videoUrl, setVideoUrl] = useState<string | null>(null);
+  const [duration, setDuration] = useState(0);
+  const [time, setTime] = useState(1);
+  const [imageUrl, setImageUrl] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!videoFile) {
+      setVideoUrl(null);
+      setDuration(0);
+      return;
+    }
+    const url = URL.createObjectURL(videoFile);
+    setVideoUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [videoFile]);
+
+  useEffect(() => {
+    return () => {
+      if (imageUrl) URL.revokeObjectURL(imageUrl);
+    };
+  }, [imageUrl]);
+
+  const text = getCaptionAt(segmentScript(scriptText, options), options, time);
+
+  // Re-render the frame whenever the style, caption or timestamp changes; a newer request
+  // aborts the one in flight, which also stops its FFmpeg run on the server
+  useEffect(() => {
+    if (!uploadId) return;
+
+    const controller = new AbortController();
+    const timer = setTimeout(async () => {
+      setIsLoading(true);
+      setError(null);
+      try {
+        const response = await fetch(`${API_BASE_URL}/api/preview/frame`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ ...options, uploadId, time, text }),
+          signal: controller.signal
+        });
+        if (!response.ok) {
+          const data = await response.json();
+          throw new Error(data.error || 'Failed to render preview frame');
+        }
+        setImageUrl(URL.createObjectURL(await response.blob()));
+      } catch (err) {
+        if (controller.signal.aborted) return;
+        setError(err instanceof Error ? err.message : 'Failed to render preview frame');
+      } finally {
+        // An aborted request's replacement owns the spinner; the cleanup resets it if none follows
+        if (!controller.signal.aborted) setIsLoading(false);
+      }
+    }, DEBOUNCE_MS);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+      setIsLoading(false);
+    };
+  }, [options, uploadId, time, text]);
+
+  if (!videoFile) return null;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-semibold text-purple-200 flex items-center">
+          <ImageIcon className="w-4 h-4 mr-2" />
+          Frame Preview
+        </h3>
+        {isLoading && <Loader2 className="w-4 h-4 text-purple-300 animate-spin" />}
+      </div>
+
+      {videoUrl && (
+        <video
+          src={videoUrl}
+          preload="metadata"
+          onLoadedMetadata={e => {
+            const videoDuration = e.currentTarget.duration;
+            setDuration(videoDuration);
+            setTime(prev => Math.min(prev, videoDuration));
+          }}
+          className="hidden"
+        />
+      )}
+
+      <div className="relative bg-black/40 rounded-xl overflow-hidden border border-white/20 min-h-32 flex items-center justify-center">
+        {imageUrl ? (
+          <img src={imageUrl} alt="Captioned frame" className={`w-full h-auto transition-opacity duration-300 ${isLoading ? 'opacity-70' : ''}`} />
+        ) : (
+          <p className="text-xs sm:text-sm text-purple-300 p-6 text-center">
+            {uploadId ? 'Rendering frame...' : 'The frame preview appears once the video has uploaded'}
+          </p>
+        )}
+      </div>
+
+      <div className="space-y-1">
+        <input
+          type="range"
+          min={0}
+          max={duration || 1}
+          step={0.1}
+          value={time}
+          onChange={e => setTime(parseFloat(e.target.value))}
+          disabled={!duration}
+          className="w-full h-3 bg-white/10 rounded-lg appearance-none cursor-pointer slider"
+        />
+        <div className="flex justify-between text-xs text-purple-300">
+          <span>{formatTime(time)}</span>
+          <span>{formatTime(duration)}</span>
+        </div>
+      </div>
+
+      {error && (
+        <p className="text-xs sm:text-sm text-red-300">{error}</p>
+      )}
+    </div>
+  );
+};
+
+export default FramePreview;
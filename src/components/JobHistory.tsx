@@ -0,0 +1,285 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { History, Filter, Calendar, Download, ExternalLink, Trash2, RefreshCw, ImageOff, CheckCircle, XCircle, Loader2, Ban } from 'lucide-react';
+import { API_BASE_URL, downloadFile, isVideoPreview } from '../utils/api';
+import type { JobStatus, JobSummary } from '../types';
+
+interface JobHistoryProps {
+  onOpenResult: (jobId: string) => void;
+}
+
+const statusFilters: Array<{ value: JobStatus | ''; label: string }> = [
+  { value: '', label: 'All' },
+  { value: 'completed', label: 'Completed' },
+  { value: 'failed', label: 'Failed' },
+  { value: 'cancelled', label: 'Cancelled' },
+  { value: 'processing', label: 'Processing' }
+];
+
+const jobTypeLabels: Record<JobSummary['type'], string> = {
+  single: 'Single video',
+  batch: 'Batch',
+  rerender: 'Re-render'
+};
+
+const statusStyles: Record<JobStatus, { className: string; icon: typeof CheckCircle }> = {
+  completed: { className: 'bg-green-500/20 text-green-200 border-green-300/30', icon: CheckCircle },
+  failed: { className: 'bg-red-500/20 text-red-200 border-red-300/30', icon: XCircle },
+  processing: { className: 'bg-blue-500/20 text-blue-200 border-blue-300/30', icon: Loader2 },
+  cancelled: { className: 'bg-white/10 text-white/70 border-white/20', icon: Ban }
+};
+
+// Date inputs are local calendar days; the server compares ISO timestamps
+const toRangeStart = (date: string) => new Date(`${date}T00:00:00`).toISOString();
+const toRangeEnd = (date: string) => new Date(`${date}T23:59:59.999`).toISOString();
+
+const JobHistory: React.FC<JobHistoryProps> = ({ onOpenResult }) => {
+  const [jobs, setJobs] = useState<JobSummary[]>([]);
+  const [statusFilter, setStatusFilter] = useState<JobStatus | ''>('');
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [deletingJobId, setDeletingJobId] = useState<string | null>(null);
+
+  const loadJobs = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+
+    const params = new URLSearchParams();
+    if (statusFilter) params.set('status', statusFilter);
+    if (fromDate) params.set('from', toRangeStart(fromDate));
+    if (toDate) params.set('to', toRangeEnd(toDate));
+
+    try {
+      const response = await fetch(`${API_BASE_URL}/api/jobs?${params.toString()}`);
+      if (!response.ok) {
+        throw new Error('Failed to load job history');
+      }
+      const data = await response.json();
+      setJobs(data.jobs);
+    } catch (err) {
+      console.error('Error loading job history:', err);
+      setError('Unable to load job history. Please ensure the backend is running on port 3001.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [statusFilter, fromDate, toDate]);
+
+  useEffect(() => {
+    loadJobs();
+  }, [loadJobs]);
+
+  const handleDeleteArtifacts = async (job: JobSummary) => {
+    if (!window.confirm('Delete the captioned videos, previews and subtitle files of this job from disk?')) {
+      return;
+    }
+
+    setDeletingJobId(job.id);
+    try {
+      const response = await fetch(`${API_BASE_URL}/api/jobs/${job.id}/artifacts`, { method: 'DELETE' });
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to delete files');
+      }
+      await loadJobs();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete files');
+    } finally {
+      setDeletingJobId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Filters */}
+      <div className="bg-white/5 backdrop-blur-sm rounded-2xl p-4 sm:p-6 border border-white/10">
+        <h3 className="text-lg sm:text-xl font-bold text-white mb-4 flex items-center">
+          <div className="p-1.5 sm:p-2 bg-gradient-to-r from-purple-500 to-pink-500 rounded-xl mr-2 sm:mr-3">
+            <Filter className="w-4 h-4 sm:w-5 sm:h-5 text-white" />
+          </div>
+          Filters
+        </h3>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-purple-200 mb-2">Status</label>
+            <div className="grid grid-cols-3 sm:grid-cols-5 gap-1 bg-white/5 rounded-xl p-1 border border-white/10">
+              {statusFilters.map(filter => (
+                <button
+                  key={filter.value || 'all'}
+                  onClick={() => setStatusFilter(filter.value)}
+                  className={`py-1.5 rounded-lg text-xs sm:text-sm font-medium transition-all duration-300 ${
+                    statusFilter === filter.value
+                      ? 'bg-gradient-to-r from-purple-500 to-pink-500 text-white shadow-lg'
+                      : 'text-purple-200 hover:text-white hover:bg-white/10'
+                  }`}
+                >
+                  {filter.label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-purple-200 mb-2 flex items-center">
+              <Calendar className="w-4 h-4 mr-1.5" />
+              From
+            </label>
+            <input
+              type="date"
+              value={fromDate}
+              max={toDate || undefined}
+              onChange={(e) => setFromDate(e.target.value)}
+              className="w-full px-3 py-2 bg-white/10 border border-white/20 rounded-xl text-white focus:outline-none focus:ring-2 focus:ring-purple-400"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-purple-200 mb-2 flex items-center">
+              <Calendar className="w-4 h-4 mr-1.5" />
+              To
+            </label>
+            <input
+              type="date"
+              value={toDate}
+              min={fromDate || undefined}
+              onChange={(e) => setToDate(e.target.value)}
+              className="w-full px-3 py-2 bg-white/10 border border-white/20 rounded-xl text-white focus:outline-none focus:ring-2 focus:ring-purple-400"
+            />
+          </div>
+        </div>
+      </div>
+
+      {error && (
+        <div className="p-4 bg-red-500/20 border border-red-300/30 rounded-2xl">
+          <p className="text-red-200 text-sm sm:text-base">{error}</p>
+        </div>
+      )}
+
+      {/* Job List */}
+      <div className="bg-white/5 backdrop-blur-sm rounded-2xl p-4 sm:p-6 border border-white/10">
+        <div className="flex items-center justify-between mb-4 sm:mb-6">
+          <h3 className="text-lg sm:text-xl font-bold text-white flex items-center">
+            <div className="p-1.5 sm:p-2 bg-gradient-to-r from-cyan-500 to-blue-500 rounded-xl mr-2 sm:mr-3">
+              <History className="w-4 h-4 sm:w-5 sm:h-5 text-white" />
+            </div>
+            Past Jobs
+          </h3>
+          <button
+            onClick={loadJobs}
+            className="px-3 sm:px-4 py-1.5 sm:py-2 bg-white/10 hover:bg-white/20 text-white rounded-xl transition-all duration-300 text-sm font-medium flex items-center"
+          >
+            <RefreshCw className={`w-4 h-4 mr-1.5 ${isLoading ? 'animate-spin' : ''}`} />
+            Refresh
+          </button>
+        </div>
+
+        {!isLoading && jobs.length === 0 && (
+          <p className="text-center text-purple-200 py-8 text-sm sm:text-base">No jobs match these filters yet</p>
+        )}
+
+        <div className="space-y-3 sm:space-y-4">
+          {jobs.map(job => {
+            const status = statusStyles[job.status];
+            const StatusIcon = status.icon;
+            const thumbnail = job.outputs.find(output => output.previewUrl)?.previewUrl;
+
+            return (
+              <div key={job.id} className="flex flex-col sm:flex-row gap-3 sm:gap-4 p-3 sm:p-4 bg-white/5 rounded-xl border border-white/10 hover:bg-white/10 transition-all duration-300">
+                <div className="w-full sm:w-40 h-24 flex-shrink-0 bg-black/30 rounded-lg overflow-hidden flex items-center justify-center">
+                  {thumbnail ? (
+                    isVideoPreview(thumbnail) ? (
+                      <video src={`${API_BASE_URL}${thumbnail}`} muted autoPlay loop playsInline className="w-full h-full object-cover" />
+                    ) : (
+                      <img src={`${API_BASE_URL}${thumbnail}`} alt="Job preview" className="w-full h-full object-cover" />
+                    )
+                  ) : (
+                    <ImageOff className="w-6 h-6 text-white/30" />
+                  )}
+                </div>
+
+                <div className="flex-1 min-w-0">
+                  <div className="flex flex-wrap items-center gap-2 mb-1">
+                    <span className={`inline-flex items-center px-2 py-0.5 rounded-full border text-xs font-medium ${status.className}`}>
+                      <StatusIcon className={`w-3 h-3 mr-1 ${job.status === 'processing' ? 'animate-spin' : ''}`} />
+                      {job.status}
+                    </span>
+                    <span className="text-xs text-purple-300">{jobTypeLabels[job.type] || job.type}</span>
+                    <span className="text-xs text-purple-300">{new Date(job.createdAt).toLocaleString()}</span>
+                  </div>
+
+                  <p className="text-white text-sm font-medium truncate">
+                    {job.inputs.map(input => input.videoName).join(', ') || 'Untitled job'}
+                  </p>
+
+                  <p className="text-xs text-purple-200 mt-1">
+                    {job.type === 'batch' && job.successCount !== undefined && `${job.successCount} of ${job.inputs.length} videos · `}
+                    {job.duration && `${job.duration} · `}
+                    {job.subtitlesCount !== undefined && `${job.subtitlesCount} subtitles`}
+                    {job.status === 'processing' && `${job.progress}% · ${job.statusMessage}`}
+                  </p>
+
+                  {job.error && (
+                    <p className="text-xs text-red-300 mt-1 truncate">{job.error}</p>
+                  )}
+                  {job.artifactsDeleted && (
+                    <p className="text-xs text-white/50 mt-1">Output files deleted</p>
+                  )}
+
+                  {job.outputs.length > 0 && (
+                    <div className="flex flex-wrap gap-2 mt-3">
+                      {job.outputs.map((output, index) => output.downloadUrl && (
+                        <button
+                          key={index}
+                          onClick={() => downloadFile(output.downloadUrl!)}
+                          className="px-3 py-1 bg-green-500/20 hover:bg-green-500/30 text-green-200 rounded-lg transition-colors duration-300 text-xs flex items-center"
+                        >
+                          <Download className="w-3 h-3 mr-1" />
+                          {job.outputs.length > 1 ? output.label : 'Video'}
+                        </button>
+                      ))}
+                      {job.outputs.length === 1 && Object.entries(job.outputs[0].subtitleUrls).map(([format, url]) => url && (
+                        <button
+                          key={format}
+                          onClick={() => downloadFile(url)}
+                          className="px-3 py-1 bg-blue-500/20 hover:bg-blue-500/30 text-blue-200 rounded-lg transition-colors duration-300 text-xs flex items-center"
+                        >
+                          <Download className="w-3 h-3 mr-1" />
+                          {format.toUpperCase()}
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                </div>
+
+                <div className="flex sm:flex-col gap-2 sm:justify-center">
+                  {job.status !== 'processing' && job.outputs.length > 0 && (
+                    <button
+                      onClick={() => onOpenResult(job.id)}
+                      className="flex-1 sm:flex-none px-3 py-2 bg-gradient-to-r from-purple-500/30 to-pink-500/30 hover:from-purple-500/50 hover:to-pink-500/50 border border-purple-300/30 text-white rounded-xl transition-all duration-300 text-xs sm:text-sm font-medium flex items-center justify-center"
+                    >
+                      <ExternalLink className="w-4 h-4 mr-1.5" />
+                      Open
+                    </button>
+                  )}
+                  {job.status !== 'processing' && !job.artifactsDeleted && (
+                    <button
+                      onClick={() => handleDeleteArtifacts(job)}
+                      disabled={deletingJobId === job.id}
+                      className="flex-1 sm:flex-none px-3 py-2 bg-red-500/20 hover:bg-red-500/30 border border-red-300/30 text-red-200 rounded-xl transition-all duration-300 text-xs sm:text-sm font-medium flex items-center justify-center disabled:opacity-50"
+                    >
+                      <Trash2 className="w-4 h-4 mr-1.5" />
+                      Delete Files
+                    </button>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default JobHistory;
@@ -0,0 +1,121 @@
+import React, { useState, useEffect } from 'react';
+import { getCaptionPreviewStyle, getCaptionPositionStyle } from '../utils/captionStyle';
+import { SAFE_ZONES } from '../utils/safeZones';
+import type { CaptionOptions } from '../types';
+
+interface LayoutPreviewProps {
+  options: CaptionOptions;
+  videoFile?: File | null;
+}
+
+// Longest side of the preview frame in pixels
+const PREVIEW_SIZE = 320;
+
+const SAMPLE_CAPTION = 'Your caption appears here';
+
+// Frame shapes to preview before a video has been picked
+const SAMPLE_FRAMES = [
+  { label: '16:9', width: 1920, height: 1080 },
+  { label: '9:16', width: 1080, height: 1920 },
+  { label: '1:1', width: 1080, height: 1080 }
+];
+
+const LayoutPreview: React.FC<LayoutPreviewProps> = ({ options, videoFile }) => {
+  const [videoUrl, setVideoUrl] = useState<string | null>(null);
+  const [frame, setFrame] = useState(SAMPLE_FRAMES[0]);
+
+  useEffect(() => {
+    if (!videoFile) {
+      setVideoUrl(null);
+      return;
+    }
+    const url = URL.createObjectURL(videoFile);
+    setVideoUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [videoFile]);
+
+  const handleLoadedMetadata = (e: React.SyntheticEvent<HTMLVideoElement>) => {
+    const video = e.currentTarget;
+    setFrame({ label: 'Video', width: video.videoWidth, height: video.videoHeight });
+    // Show a frame from a moment in rather than a possibly black first frame
+    video.currentTime = Math.min(1, video.duration / 2);
+  };
+
+  // A burned-in render resized to a set resolution lays captions out on that frame instead
+  const isResized = options.outputMode !== 'soft' && options.outputWidth > 0 && options.outputHeight > 0;
+  const target = isResized ? { label: 'Output', width: options.outputWidth, height: options.outputHeight } : frame;
+
+  const aspect = target.width / target.height;
+  const box = aspect >= 1
+    ? { width: PREVIEW_SIZE, height: PREVIEW_SIZE / aspect }
+    : { width: PREVIEW_SIZE * aspect, height: PREVIEW_SIZE };
+  const zone = SAFE_ZONES[options.safeZone];
+
+  return (
+    <div className="space-y-3">
+      {!videoFile && !isResized && (
+        <div className="flex justify-center gap-2">
+          {SAMPLE_FRAMES.map(sample => (
+            <button
+              key={sample.label}
+              onClick={() => setFrame(sample)}
+              className={`px-3 py-1.5 rounded-lg border transition-all duration-300 text-xs sm:text-sm ${
+                frame.label === sample.label
+                  ? 'border-purple-400 bg-purple-500/30 text-white'
+                  : 'border-white/20 bg-white/5 text-purple-200 hover:bg-purple-500/20'
+              }`}
+            >
+              {sample.label}
+            </button>
+          ))}
+        </div>
+      )}
+
+      <div
+        className="relative mx-auto bg-gradient-to-br from-gray-700 to-gray-900 rounded-lg overflow-hidden border border-white/20"
+        style={{ width: `${box.width}px`, height: `${box.height}px` }}
+      >
+        {videoUrl && (
+          <video
+            src={videoUrl}
+            muted
+            playsInline
+            preload="metadata"
+            onLoadedMetadata={handleLoadedMetadata}
+            className={`absolute inset-0 w-full h-full ${isResized && options.resizeMode === 'fit' ? 'object-contain' : 'object-cover'}`}
+          />
+        )}
+
+        {/* Platform UI covers the shaded edges; captions stay inside the dashed area */}
+        {zone && (
+          <>
+            <div className="absolute left-0 right-0 top-0 bg-red-500/25" style={{ height: `${zone.top}%` }} />
+            <div className="absolute left-0 right-0 bottom-0 bg-red-500/25" style={{ height: `${zone.bottom}%` }} />
+            <div className="absolute left-0 bg-red-500/25" style={{ top: `${zone.top}%`, bottom: `${zone.bottom}%`, width: `${zone.left}%` }} />
+            <div className="absolute right-0 bg-red-500/25" style={{ top: `${zone.top}%`, bottom: `${zone.bottom}%`, width: `${zone.right}%` }} />
+            <div
+              className="absolute border border-dashed border-white/60"
+              style={{ top: `${zone.top}%`, bottom: `${zone.bottom}%`, left: `${zone.left}%`, right: `${zone.right}%` }}
+            />
+          </>
+        )}
+
+        <div className="pointer-events-none" style={getCaptionPositionStyle(options)}>
+          <span
+            className="inline-block whitespace-pre-line"
+            style={getCaptionPreviewStyle(options, box.height / 288)}
+          >
+            {SAMPLE_CAPTION}
+          </span>
+        </div>
+      </div>
+
+      <p className="text-xs text-purple-300 text-center">
+        {videoFile || isResized ? `${target.width}x${target.height}` : 'Pick a video to preview its frame'}
+        {zone && ` · ${zone.label} safe zone shaded`}
+      </p>
+    </div>
+  );
+};
+
+export default LayoutPreview;
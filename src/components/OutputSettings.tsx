@@ -0,0 +1,221 @@
+import React, { useState, useEffect } from 'react';
+import { Clapperboard } from 'lucide-react';
+import { API_BASE_URL } from '../utils/api';
+import type { CaptionOptions, VideoCodec } from '../types';
+
+interface OutputSettingsProps {
+  options: CaptionOptions;
+  onOptionsChange: (options: CaptionOptions) => void;
+}
+
+// Offered until the server reports what its FFmpeg can encode
+const FALLBACK_CODECS: VideoCodec[] = [
+  { id: 'h264', label: 'H.264', containers: ['mp4', 'mkv', 'mov'], crf: { min: 0, max: 51, default: 23 } }
+];
+
+const CONTAINERS = ['mp4', 'mkv', 'webm', 'mov'];
+
+const speedPresets = [
+  { key: 'fastest', label: 'Fastest' },
+  { key: 'fast', label: 'Fast' },
+  { key: 'medium', label: 'Medium' },
+  { key: 'slow', label: 'Slow' },
+  { key: 'slowest', label: 'Slowest' }
+];
+
+const resolutions = [
+  { label: 'Same as source', width: 0, height: 0 },
+  { label: '4K (3840x2160)', width: 3840, height: 2160 },
+  { label: '1080p (1920x1080)', width: 1920, height: 1080 },
+  { label: '720p (1280x720)', width: 1280, height: 720 },
+  { label: '480p (854x480)', width: 854, height: 480 },
+  { label: 'Vertical 1080x1920', width: 1080, height: 1920 },
+  { label: 'Vertical 720x1280', width: 720, height: 1280 },
+  { label: 'Square 1080x1080', width: 1080, height: 1080 },
+  { label: 'Portrait 4:5 1080x1350', width: 1080, height: 1350 }
+];
+
+const frameRates = [0, 24, 25, 30, 50, 60];
+
+const OutputSettings: React.FC<OutputSettingsProps> = ({ options, onOptionsChange }) => {
+  const [codecs, setCodecs] = useState<VideoCodec[]>(FALLBACK_CODECS);
+  const [detected, setDetected] = useState(true);
+
+  useEffect(() => {
+    fetch(`${API_BASE_URL}/api/encoders`)
+      .then(response => response.ok ? response.json() : null)
+      .then(data => {
+        if (data) {
+          setCodecs(data.codecs);
+          setDetected(data.detected);
+        }
+      })
+      .catch(err => console.error('Error loading encoders:', err));
+  }, []);
+
+  const codec = codecs.find(other => other.id === options.videoCodec);
+  const activeCodec = codec || codecs[0];
+
+  const handleChange = (changes: Partial<CaptionOptions>) => {
+    onOptionsChange({ ...options, ...changes });
+  };
+
+  // Quality scales differ per codec, and not every container holds every codec
+  const handleCodecChange = (next: VideoCodec) => {
+    handleChange({
+      videoCodec: next.id,
+      crf: next.crf.default,
+      container: next.containers.includes(options.container) ? options.container : next.containers[0]
+    });
+  };
+
+  const selectClassName = 'w-full px-3 sm:px-4 py-2 sm:py-3 bg-white/10 border border-white/20 rounded-xl text-white focus:outline-none focus:ring-2 focus:ring-purple-500 focus:border-transparent transition-all duration-300 appearance-none cursor-pointer text-sm sm:text-base';
+  const buttonClassName = (isActive: boolean) => `px-3 sm:px-4 py-2 sm:py-3 rounded-xl border transition-all duration-300 font-semibold text-sm sm:text-base disabled:opacity-40 disabled:cursor-not-allowed ${
+    isActive
+      ? 'border-purple-400 bg-gradient-to-r from-purple-500/30 to-pink-500/30 text-white shadow-lg'
+      : 'border-white/20 bg-white/5 text-purple-200 hover:border-purple-400 hover:bg-purple-500/20'
+  }`;
+
+  return (
+    <div className="bg-white/5 backdrop-blur-sm rounded-2xl p-4 sm:p-6 border border-white/10">
+      <h3 className="text-lg sm:text-xl font-bold text-white mb-4 sm:mb-6 flex items-center">
+        <div className="p-1.5 sm:p-2 bg-gradient-to-r from-emerald-500 to-teal-500 rounded-xl mr-2 sm:mr-3">
+          <Clapperboard className="w-4 h-4 sm:w-5 sm:h-5 text-white" />
+        </div>
+        Output Settings
+      </h3>
+
+      {options.outputMode === 'soft' && (
+        <p className="text-xs text-purple-300 mb-4">
+          A soft subtitle track copies the source video as it is; these settings apply when captions are burned in
+        </p>
+      )}
+
+      <div className="space-y-4 sm:space-y-6">
+        <div className="space-y-2 sm:space-y-3">
+          <label className="block text-sm font-semibold text-purple-200">Codec</label>
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-2 sm:gap-3">
+            {codecs.map(other => (
+              <button key={other.id} onClick={() => handleCodecChange(other)} className={buttonClassName(activeCodec.id === other.id)}>
+                {other.label}
+              </button>
+            ))}
+          </div>
+          {!codec && (
+            <p className="text-xs text-yellow-300">
+              {options.videoCodec.toUpperCase()} is not available in this machine's FFmpeg; {activeCodec.label} is used instead
+            </p>
+          )}
+          {!detected && (
+            <p className="text-xs text-purple-300">
+              The server could not list FFmpeg's encoders, so only H.264 is offered
+            </p>
+          )}
+        </div>
+
+        <div className="space-y-2 sm:space-y-3">
+          <label className="block text-sm font-semibold text-purple-200">Container</label>
+          <div className="grid grid-cols-4 gap-2 sm:gap-3">
+            {CONTAINERS.map(container => (
+              <button
+                key={container}
+                onClick={() => handleChange({ container })}
+                disabled={!activeCodec.containers.includes(container)}
+                className={buttonClassName(options.container === container)}
+                title={activeCodec.containers.includes(container) ? undefined : `${activeCodec.label} cannot be stored in ${container.toUpperCase()}`}
+              >
+                {container.toUpperCase()}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="space-y-2 sm:space-y-3">
+          <label className="block text-sm font-semibold text-purple-200">
+            Quality (CRF): {options.crf}
+          </label>
+          <input
+            type="range"
+            value={options.crf}
+            onChange={(e) => handleChange({ crf: parseInt(e.target.value) })}
+            min={activeCodec.crf.min}
+            max={activeCodec.crf.max}
+            step={1}
+            className="w-full h-3 bg-white/10 rounded-lg appearance-none cursor-pointer slider"
+          />
+          <p className="text-xs text-purple-300">
+            Lower is better quality and larger files; {activeCodec.crf.default} is {activeCodec.label}'s usual default
+          </p>
+        </div>
+
+        <div className="space-y-2 sm:space-y-3">
+          <label className="block text-sm font-semibold text-purple-200">Encoding Speed</label>
+          <div className="grid grid-cols-3 sm:grid-cols-5 gap-2 sm:gap-3">
+            {speedPresets.map(preset => (
+              <button key={preset.key} onClick={() => handleChange({ speedPreset: preset.key })} className={buttonClassName(options.speedPreset === preset.key)}>
+                {preset.label}
+              </button>
+            ))}
+          </div>
+          <p className="text-xs text-purple-300">
+            Slower presets make smaller files at the same quality
+          </p>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4 sm:gap-6">
+          <div className="space-y-2 sm:space-y-3">
+            <label className="block text-sm font-semibold text-purple-200">Resolution</label>
+            <select
+              value={`${options.outputWidth}x${options.outputHeight}`}
+              onChange={(e) => {
+                const [width, height] = e.target.value.split('x').map(Number);
+                handleChange({ outputWidth: width, outputHeight: height });
+              }}
+              className={selectClassName}
+            >
+              {resolutions.map(resolution => (
+                <option key={resolution.label} value={`${resolution.width}x${resolution.height}`} className="bg-gray-800">
+                  {resolution.label}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div className="space-y-2 sm:space-y-3">
+            <label className="block text-sm font-semibold text-purple-200">Frame Rate</label>
+            <select
+              value={options.frameRate}
+              onChange={(e) => handleChange({ frameRate: parseInt(e.target.value) })}
+              className={selectClassName}
+            >
+              {frameRates.map(rate => (
+                <option key={rate} value={rate} className="bg-gray-800">
+                  {rate === 0 ? 'Same as source' : `${rate} fps`}
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        {options.outputWidth > 0 && (
+          <div className="space-y-2 sm:space-y-3">
+            <label className="block text-sm font-semibold text-purple-200">When the Shape Differs</label>
+            <div className="grid grid-cols-2 gap-2 sm:gap-3">
+              <button onClick={() => handleChange({ resizeMode: 'fit' })} className={buttonClassName(options.resizeMode === 'fit')}>
+                Fit with bars
+              </button>
+              <button onClick={() => handleChange({ resizeMode: 'crop' })} className={buttonClassName(options.resizeMode === 'crop')}>
+                Crop to fill
+              </button>
+            </div>
+            <p className="text-xs text-purple-300">
+              Captions are laid out on the resized frame, so cropping never cuts them off
+            </p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default OutputSettings;
@@ -0,0 +1,244 @@
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { Bookmark, Save, Star, Trash2, Upload, Download, RefreshCw } from 'lucide-react';
+import { API_BASE_URL, downloadFile } from '../utils/api';
+import { matchesPreset } from '../utils/presets';
+import type { CaptionOptions, CaptionPreset } from '../types';
+
+interface PresetPickerProps {
+  options: CaptionOptions;
+  preset: CaptionPreset | null;
+  onPresetChange: (preset: CaptionPreset | null) => void;
+}
+
+const PresetPicker: React.FC<PresetPickerProps> = ({ options, preset, onPresetChange }) => {
+  const [presets, setPresets] = useState<CaptionPreset[]>([]);
+  const [newName, setNewName] = useState('');
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const isModified = preset !== null && !matchesPreset(options, preset);
+
+  const loadPresets = useCallback(async () => {
+    try {
+      const response = await fetch(`${API_BASE_URL}/api/presets`);
+      if (!response.ok) {
+        throw new Error('Failed to load presets');
+      }
+      const data = await response.json();
+      setPresets(data.presets);
+    } catch (err) {
+      console.error('Error loading presets:', err);
+      setError('Unable to load presets. Please ensure the backend is running on port 3001.');
+    }
+  }, []);
+
+  useEffect(() => {
+    loadPresets();
+  }, [loadPresets]);
+
+  // Run a preset request, then refresh the list; returns the response body
+  const request = async (path: string, init: RequestInit, fallbackError: string) => {
+    setIsBusy(true);
+    setError(null);
+    try {
+      const response = await fetch(`${API_BASE_URL}${path}`, {
+        ...init,
+        headers: { 'Content-Type': 'application/json' }
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || fallbackError);
+      }
+      await loadPresets();
+      return data;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : fallbackError);
+      return null;
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleSelect = (presetId: string) => {
+    onPresetChange(presets.find(other => other.id === presetId) || null);
+  };
+
+  const handleSaveAs = async () => {
+    const saved = await request('/api/presets', {
+      method: 'POST',
+      body: JSON.stringify({ name: newName.trim(), options })
+    }, 'Failed to save preset');
+    if (saved) {
+      setNewName('');
+      onPresetChange(saved);
+    }
+  };
+
+  const handleUpdate = async () => {
+    if (!preset) return;
+    const updated = await request(`/api/presets/${preset.id}`, {
+      method: 'PUT',
+      body: JSON.stringify({ options })
+    }, 'Failed to update preset');
+    if (updated) {
+      onPresetChange(updated);
+    }
+  };
+
+  const handleToggleDefault = async () => {
+    if (!preset) return;
+    const done = await request(`/api/presets/${preset.id}/default`, {
+      method: preset.isDefault ? 'DELETE' : 'POST'
+    }, 'Failed to change the default preset');
+    if (done) {
+      onPresetChange({ ...preset, isDefault: !preset.isDefault });
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!preset || !window.confirm(`Delete the preset "${preset.name}"?`)) return;
+    const done = await request(`/api/presets/${preset.id}`, { method: 'DELETE' }, 'Failed to delete preset');
+    if (done) {
+      onPresetChange(null);
+    }
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    let body: string;
+    try {
+      body = JSON.stringify(JSON.parse(await file.text()));
+    } catch {
+      setError(`${file.name} is not a valid presets file`);
+      return;
+    }
+    await request('/api/presets/import', { method: 'POST', body }, 'Failed to import presets');
+  };
+
+  return (
+    <div className="bg-white/5 backdrop-blur-sm rounded-2xl p-4 sm:p-6 border border-white/10">
+      <div className="flex items-center justify-between mb-4 sm:mb-6">
+        <h3 className="text-lg sm:text-xl font-bold text-white flex items-center">
+          <div className="p-1.5 sm:p-2 bg-gradient-to-r from-yellow-500 to-orange-500 rounded-xl mr-2 sm:mr-3">
+            <Bookmark className="w-4 h-4 sm:w-5 sm:h-5 text-white" />
+          </div>
+          Style Presets
+        </h3>
+        <div className="flex gap-2">
+          <button
+            onClick={() => importInputRef.current?.click()}
+            disabled={isBusy}
+            className="px-2.5 sm:px-3 py-1.5 bg-white/10 hover:bg-white/20 text-white rounded-lg transition-all duration-300 text-xs sm:text-sm flex items-center disabled:opacity-50"
+            title="Import presets from a JSON file"
+          >
+            <Upload className="w-3.5 h-3.5 mr-1" />
+            Import
+          </button>
+          <button
+            onClick={() => downloadFile('/api/presets/export')}
+            disabled={presets.length === 0}
+            className="px-2.5 sm:px-3 py-1.5 bg-white/10 hover:bg-white/20 text-white rounded-lg transition-all duration-300 text-xs sm:text-sm flex items-center disabled:opacity-50"
+            title="Export all presets as JSON"
+          >
+            <Download className="w-3.5 h-3.5 mr-1" />
+            Export
+          </button>
+          <input
+            ref={importInputRef}
+            type="file"
+            accept=".json,application/json"
+            onChange={handleImport}
+            className="hidden"
+          />
+        </div>
+      </div>
+
+      <div className="space-y-4">
+        <div className="space-y-2">
+          <select
+            value={preset?.id || ''}
+            onChange={(e) => handleSelect(e.target.value)}
+            className="w-full px-3 sm:px-4 py-2 sm:py-3 bg-white/10 border border-white/20 rounded-xl text-white focus:outline-none focus:ring-2 focus:ring-purple-500 focus:border-transparent transition-all duration-300 cursor-pointer text-sm sm:text-base"
+          >
+            <option value="" className="bg-gray-800">No preset (custom settings)</option>
+            {presets.map(other => (
+              <option key={other.id} value={other.id} className="bg-gray-800">
+                {other.name}{other.isDefault ? ' (default)' : ''}
+              </option>
+            ))}
+          </select>
+          {isModified && (
+            <p className="text-xs text-purple-300">
+              Settings changed since "{preset.name}" was applied
+            </p>
+          )}
+        </div>
+
+        {preset && (
+          <div className="flex flex-wrap gap-2">
+            {isModified && (
+              <button
+                onClick={handleUpdate}
+                disabled={isBusy}
+                className="px-3 py-1.5 bg-purple-500/20 hover:bg-purple-500/30 border border-purple-300/30 text-purple-100 rounded-lg transition-all duration-300 text-xs sm:text-sm flex items-center disabled:opacity-50"
+              >
+                <RefreshCw className="w-3.5 h-3.5 mr-1" />
+                Update "{preset.name}"
+              </button>
+            )}
+            <button
+              onClick={handleToggleDefault}
+              disabled={isBusy}
+              className={`px-3 py-1.5 border rounded-lg transition-all duration-300 text-xs sm:text-sm flex items-center disabled:opacity-50 ${
+                preset.isDefault
+                  ? 'bg-yellow-500/20 hover:bg-yellow-500/30 border-yellow-300/30 text-yellow-100'
+                  : 'bg-white/10 hover:bg-white/20 border-white/20 text-white'
+              }`}
+            >
+              <Star className={`w-3.5 h-3.5 mr-1 ${preset.isDefault ? 'fill-current' : ''}`} />
+              {preset.isDefault ? 'Default preset' : 'Set as default'}
+            </button>
+            <button
+              onClick={handleDelete}
+              disabled={isBusy}
+              className="px-3 py-1.5 bg-red-500/20 hover:bg-red-500/30 border border-red-300/30 text-red-200 rounded-lg transition-all duration-300 text-xs sm:text-sm flex items-center disabled:opacity-50"
+            >
+              <Trash2 className="w-3.5 h-3.5 mr-1" />
+              Delete
+            </button>
+          </div>
+        )}
+
+        <div className="flex gap-2">
+          <input
+            type="text"
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && newName.trim() && handleSaveAs()}
+            placeholder="New preset name"
+            maxLength={80}
+            className="flex-1 min-w-0 px-3 sm:px-4 py-2 bg-white/10 border border-white/20 rounded-xl text-white placeholder-white/50 focus:outline-none focus:ring-2 focus:ring-purple-500 focus:border-transparent transition-all duration-300 text-sm sm:text-base"
+          />
+          <button
+            onClick={handleSaveAs}
+            disabled={isBusy || !newName.trim()}
+            className="px-3 sm:px-4 py-2 bg-gradient-to-r from-purple-500 to-pink-500 hover:from-purple-600 hover:to-pink-600 text-white rounded-xl transition-all duration-300 text-sm font-medium flex items-center disabled:opacity-50"
+          >
+            <Save className="w-4 h-4 mr-1.5" />
+            Save as preset
+          </button>
+        </div>
+
+        {error && (
+          <p className="text-xs sm:text-sm text-red-300">{error}</p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PresetPicker;
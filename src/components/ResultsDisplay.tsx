@@ -1,38 +1,57 @@
 import React, { useState } from 'react';
-import { Download, Play, Clock, FileText, Eye, Sparkles, CheckCircle, Share } from 'lucide-react';
-
-interface ProcessingResult {
-  success: boolean;
-  duration: string;
-  durationSeconds: number;
-  subtitlesCount: number;
-  previewUrl: string;
-  downloadUrl: string;
-  subtitles: any[];
-}
+import { Download, Play, Clock, FileText, Eye, Sparkles, CheckCircle, Share, Scissors, RefreshCw, Share2 } from 'lucide-react';
+import TimelineEditor from './TimelineEditor';
+import { API_BASE_URL, downloadFile, isVideoPreview } from '../utils/api';
+import { getCueProblems } from '../utils/cues';
+import type { CaptionOptions, ProcessingResult, Subtitle, SubtitleFormat } from '../types';
+
+const subtitleFormatLabels: Record<SubtitleFormat, { label: string; description: string }> = {
+  srt: { label: 'SRT', description: 'Premiere, DaVinci, YouTube' },
+  vtt: { label: 'WebVTT', description: 'Web players' },
+  ass: { label: 'ASS', description: 'Styled, as burned in' },
+  json: { label: 'JSON', description: 'Cue list' }
+};
 
 interface ResultsDisplayProps {
   result: ProcessingResult;
+  videoFile?: File | null;
+  options?: CaptionOptions;
+  onRerender?: (cues: Subtitle[]) => void;
 }
 
-const ResultsDisplay: React.FC<ResultsDisplayProps> = ({ result }) => {
+const outputModeLabels: Record<string, string> = {
+  burn: 'Captions burned into the video',
+  soft: 'Captions added as a selectable subtitle track',
+  both: 'Captions burned in plus a selectable subtitle track'
+};
+
+const ResultsDisplay: React.FC<ResultsDisplayProps> = ({ result, videoFile, options, onRerender }) => {
   const [isPreviewLoading, setIsPreviewLoading] = useState(true);
   const [showAllSubtitles, setShowAllSubtitles] = useState(false);
+  const [isEditing, setIsEditing] = useState(false);
+  const [editedCues, setEditedCues] = useState<Subtitle[]>(result.subtitles);
+
+  // Re-rendering needs the server-side source video and the local file for playback
+  const canRerender = Boolean(result.sourceJobId && onRerender && videoFile && options);
+
+  const handleStartEditing = () => {
+    setEditedCues(result.subtitles);
+    setIsEditing(true);
+  };
 
   const handleDownload = () => {
-    // Create a temporary link element to force download
-    const link = document.createElement('a');
-    link.href = `http://localhost:3001${result.downloadUrl}`;
-    link.download = ''; // This attribute forces download
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
+    downloadFile(result.downloadUrl);
   };
 
   const handlePreviewLoad = () => {
     setIsPreviewLoading(false);
   };
 
+  const previewUrl = `${API_BASE_URL}${result.previewUrl}`;
+  const previewLabel = result.previewDuration !== undefined && result.previewStart !== undefined
+    ? `${result.previewDuration.toFixed(1)}s from ${result.previewStart.toFixed(1)}s`
+    : 'First 3 seconds';
+
   return (
     <div className="space-y-6 sm:space-y-8">
       {/* Success Message */}
@@ -50,6 +69,11 @@ const ResultsDisplay: React.FC<ResultsDisplayProps> = ({ result }) => {
             <p className="text-green-200 text-sm sm:text-base">
               Your captioned video is ready for download and sharing
             </p>
+            {result.outputMode && (
+              <p className="text-green-300 text-xs sm:text-sm mt-1">
+                {outputModeLabels[result.outputMode] || result.outputMode}
+              </p>
+            )}
           </div>
         </div>
       </div>
@@ -92,7 +116,7 @@ const ResultsDisplay: React.FC<ResultsDisplayProps> = ({ result }) => {
           </h3>
           <div className="flex items-center space-x-2 text-purple-200">
             <Sparkles className="w-3 h-3 sm:w-4 sm:h-4" />
-            <span className="text-sm font-medium">First 3 seconds</span>
+            <span className="text-sm font-medium">{previewLabel}</span>
           </div>
         </div>
         
@@ -105,13 +129,25 @@ const ResultsDisplay: React.FC<ResultsDisplayProps> = ({ result }) => {
               </div>
             </div>
           )}
-          <img
-            src={`http://localhost:3001${result.previewUrl}`}
-            alt="Video preview with captions"
-            className="w-full h-auto rounded-xl max-h-48 sm:max-h-64 lg:max-h-80 object-contain mx-auto"
-            onLoad={handlePreviewLoad}
-            onError={() => setIsPreviewLoading(false)}
-          />
+          {isVideoPreview(result.previewUrl) ? (
+            <video
+              src={previewUrl}
+              controls
+              loop
+              playsInline
+              className="w-full h-auto rounded-xl max-h-48 sm:max-h-64 lg:max-h-80 object-contain mx-auto"
+              onLoadedData={handlePreviewLoad}
+              onError={() => setIsPreviewLoading(false)}
+            />
+          ) : (
+            <img
+              src={previewUrl}
+              alt="Video preview with captions"
+              className="w-full h-auto rounded-xl max-h-48 sm:max-h-64 lg:max-h-80 object-contain mx-auto"
+              onLoad={handlePreviewLoad}
+              onError={() => setIsPreviewLoading(false)}
+            />
+          )}
         </div>
         
         <div className="mt-4 text-center">
@@ -140,6 +176,86 @@ const ResultsDisplay: React.FC<ResultsDisplayProps> = ({ result }) => {
         </button>
       </div>
 
+      {/* Platform Renditions */}
+      {result.renditions && result.renditions.length > 0 && (
+        <div className="bg-white/5 backdrop-blur-sm rounded-2xl p-4 sm:p-6 border border-white/10">
+          <h3 className="text-lg sm:text-xl font-bold text-white mb-4 sm:mb-6 flex items-center">
+            <div className="p-1.5 sm:p-2 bg-gradient-to-r from-sky-500 to-indigo-500 rounded-xl mr-2 sm:mr-3">
+              <Share2 className="w-4 h-4 sm:w-5 sm:h-5 text-white" />
+            </div>
+            Platform Renditions
+          </h3>
+
+          <div className="space-y-2 sm:space-y-3">
+            {result.renditions.map(rendition => (
+              <div
+                key={rendition.profile}
+                className="flex flex-col sm:flex-row sm:items-center justify-between gap-2 p-3 sm:p-4 bg-white/5 border border-white/10 rounded-xl"
+              >
+                <div>
+                  <p className="text-white font-semibold text-sm sm:text-base">{rendition.label}</p>
+                  <p className={`text-xs ${rendition.success ? 'text-purple-200' : 'text-red-300'}`}>
+                    {rendition.success
+                      ? `${rendition.duration} • ${rendition.subtitlesCount} subtitles`
+                      : rendition.error || 'Rendering failed'}
+                  </p>
+                </div>
+                {rendition.success && rendition.downloadUrl && (
+                  <div className="flex flex-wrap gap-2">
+                    {rendition.previewUrl && (
+                      <button
+                        onClick={() => window.open(`${API_BASE_URL}${rendition.previewUrl}`, '_blank')}
+                        className="px-3 py-2 bg-purple-500/20 hover:bg-purple-500/40 text-purple-200 rounded-xl transition-all duration-300 text-xs sm:text-sm flex items-center"
+                      >
+                        <Eye className="w-4 h-4 mr-1.5" />
+                        Preview
+                      </button>
+                    )}
+                    <button
+                      onClick={() => downloadFile(rendition.downloadUrl!)}
+                      className="px-3 py-2 bg-green-500/20 hover:bg-green-500/40 text-green-200 rounded-xl transition-all duration-300 text-xs sm:text-sm flex items-center"
+                    >
+                      <Download className="w-4 h-4 mr-1.5" />
+                      Download
+                    </button>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Subtitle Files */}
+      {result.subtitleUrls && Object.keys(result.subtitleUrls).length > 0 && (
+        <div className="bg-white/5 backdrop-blur-sm rounded-2xl p-4 sm:p-6 border border-white/10">
+          <h3 className="text-lg sm:text-xl font-bold text-white mb-4 sm:mb-6 flex items-center">
+            <div className="p-1.5 sm:p-2 bg-gradient-to-r from-blue-500 to-cyan-500 rounded-xl mr-2 sm:mr-3">
+              <Download className="w-4 h-4 sm:w-5 sm:h-5 text-white" />
+            </div>
+            Subtitle Files
+          </h3>
+
+          <div className="grid grid-cols-2 lg:grid-cols-4 gap-3 sm:gap-4">
+            {(Object.keys(subtitleFormatLabels) as SubtitleFormat[])
+              .filter(format => result.subtitleUrls?.[format])
+              .map(format => (
+                <button
+                  key={format}
+                  onClick={() => downloadFile(result.subtitleUrls![format]!)}
+                  className="group p-3 sm:p-4 bg-white/5 hover:bg-blue-500/20 border border-white/10 hover:border-blue-300/40 rounded-xl transition-all duration-300 text-left"
+                >
+                  <div className="flex items-center justify-between">
+                    <span className="text-white font-bold text-sm sm:text-base">{subtitleFormatLabels[format].label}</span>
+                    <Download className="w-4 h-4 text-blue-300 group-hover:animate-bounce" />
+                  </div>
+                  <p className="text-xs text-purple-200 mt-1">{subtitleFormatLabels[format].description}</p>
+                </button>
+              ))}
+          </div>
+        </div>
+      )}
+
       {/* Subtitle Preview */}
       <div className="bg-white/5 backdrop-blur-sm rounded-2xl p-4 sm:p-6 border border-white/10">
         <div className="flex flex-col sm:flex-row sm:items-center justify-between mb-4 sm:mb-6 gap-2">
@@ -149,55 +265,97 @@ const ResultsDisplay: React.FC<ResultsDisplayProps> = ({ result }) => {
             </div>
             Subtitle Timeline
           </h3>
-          <button
-            onClick={() => setShowAllSubtitles(!showAllSubtitles)}
-            className="px-3 sm:px-4 py-1.5 sm:py-2 bg-white/10 hover:bg-white/20 text-white rounded-xl transition-all duration-300 text-sm font-medium"
-          >
-            {showAllSubtitles ? 'Show Less' : 'Show All'}
-          </button>
+          <div className="flex items-center gap-2">
+            {canRerender && !isEditing && (
+              <button
+                onClick={handleStartEditing}
+                className="px-3 sm:px-4 py-1.5 sm:py-2 bg-gradient-to-r from-purple-500/30 to-pink-500/30 hover:from-purple-500/50 hover:to-pink-500/50 border border-purple-300/30 text-white rounded-xl transition-all duration-300 text-sm font-medium flex items-center"
+              >
+                <Scissors className="w-4 h-4 mr-1.5" />
+                Edit and Re-render
+              </button>
+            )}
+            {!isEditing && (
+              <button
+                onClick={() => setShowAllSubtitles(!showAllSubtitles)}
+                className="px-3 sm:px-4 py-1.5 sm:py-2 bg-white/10 hover:bg-white/20 text-white rounded-xl transition-all duration-300 text-sm font-medium"
+              >
+                {showAllSubtitles ? 'Show Less' : 'Show All'}
+              </button>
+            )}
+          </div>
         </div>
         
-        <div className="bg-black/20 rounded-xl p-3 sm:p-4 max-h-48 sm:max-h-64 overflow-y-auto border border-white/10 custom-scrollbar">
-          <div className="space-y-2 sm:space-y-3">
-            {(showAllSubtitles ? result.subtitles : result.subtitles.slice(0, 5)).map((subtitle, index) => (
-              <div
-                key={index}
-                className="flex items-start space-x-2 sm:space-x-3 lg:space-x-4 p-2 sm:p-3 bg-white/5 rounded-lg hover:bg-white/10 transition-all duration-300"
+        {isEditing && videoFile && options && onRerender ? (
+          <div className="space-y-4 sm:space-y-6">
+            <TimelineEditor
+              videoFile={videoFile}
+              cues={editedCues}
+              options={options}
+              timingMode={result.timingMode || 'estimate'}
+              onCuesChange={setEditedCues}
+            />
+
+            <div className="flex flex-col sm:flex-row justify-end gap-3">
+              <button
+                onClick={() => setIsEditing(false)}
+                className="px-4 sm:px-6 py-2 sm:py-3 bg-white/10 hover:bg-white/20 text-white rounded-xl transition-all duration-300 text-sm font-medium"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={() => onRerender(editedCues)}
+                disabled={editedCues.length === 0 || getCueProblems(editedCues).some(Boolean)}
+                className="px-4 sm:px-6 py-2 sm:py-3 bg-gradient-to-r from-green-600 to-emerald-600 hover:from-green-700 hover:to-emerald-700 disabled:opacity-50 disabled:cursor-not-allowed text-white rounded-xl transition-all duration-300 text-sm font-semibold flex items-center justify-center"
               >
-                <div className="flex-shrink-0">
-                  <div className="w-8 h-6 sm:w-10 sm:h-7 lg:w-12 lg:h-8 bg-gradient-to-r from-purple-500 to-pink-500 rounded-lg flex items-center justify-center">
-                    <span className="text-white text-xs font-bold">{index + 1}</span>
+                <RefreshCw className="w-4 h-4 mr-2" />
+                Re-render Video
+              </button>
+            </div>
+          </div>
+        ) : (
+          <div className="bg-black/20 rounded-xl p-3 sm:p-4 max-h-48 sm:max-h-64 overflow-y-auto border border-white/10 custom-scrollbar">
+            <div className="space-y-2 sm:space-y-3">
+              {(showAllSubtitles ? result.subtitles : result.subtitles.slice(0, 5)).map((subtitle, index) => (
+                <div
+                  key={index}
+                  className="flex items-start space-x-2 sm:space-x-3 lg:space-x-4 p-2 sm:p-3 bg-white/5 rounded-lg hover:bg-white/10 transition-all duration-300"
+                >
+                  <div className="flex-shrink-0">
+                    <div className="w-8 h-6 sm:w-10 sm:h-7 lg:w-12 lg:h-8 bg-gradient-to-r from-purple-500 to-pink-500 rounded-lg flex items-center justify-center">
+                      <span className="text-white text-xs font-bold">{index + 1}</span>
+                    </div>
                   </div>
-                </div>
-                <div className="flex-1 min-w-0">
-                  <div className="flex flex-col sm:flex-row sm:items-center sm:space-x-3 mb-1 gap-1 sm:gap-0">
-                    <span className="text-purple-300 font-mono text-xs sm:text-sm">
-                      {Math.floor(subtitle.start / 60).toString().padStart(2, '0')}:
-                      {Math.floor(subtitle.start % 60).toString().padStart(2, '0')}
-                    </span>
-                    <span className="text-white/50 hidden sm:inline">→</span>
-                    <span className="text-purple-300 font-mono text-xs sm:text-sm">
-                      {Math.floor(subtitle.end / 60).toString().padStart(2, '0')}:
-                      {Math.floor(subtitle.end % 60).toString().padStart(2, '0')}
-                    </span>
+                  <div className="flex-1 min-w-0">
+                    <div className="flex flex-col sm:flex-row sm:items-center sm:space-x-3 mb-1 gap-1 sm:gap-0">
+                      <span className="text-purple-300 font-mono text-xs sm:text-sm">
+                        {Math.floor(subtitle.start / 60).toString().padStart(2, '0')}:
+                        {Math.floor(subtitle.start % 60).toString().padStart(2, '0')}
+                      </span>
+                      <span className="text-white/50 hidden sm:inline">→</span>
+                      <span className="text-purple-300 font-mono text-xs sm:text-sm">
+                        {Math.floor(subtitle.end / 60).toString().padStart(2, '0')}:
+                        {Math.floor(subtitle.end % 60).toString().padStart(2, '0')}
+                      </span>
+                    </div>
+                    <p className="text-white text-xs sm:text-sm leading-relaxed">{subtitle.text}</p>
                   </div>
-                  <p className="text-white text-xs sm:text-sm leading-relaxed">{subtitle.text}</p>
                 </div>
-              </div>
-            ))}
+              ))}
             
-            {!showAllSubtitles && result.subtitles.length > 5 && (
-              <div className="text-center py-3 sm:py-4">
-                <button
-                  onClick={() => setShowAllSubtitles(true)}
-                  className="text-purple-300 hover:text-white transition-colors duration-300 text-xs sm:text-sm font-medium"
-                >
-                  ... and {result.subtitles.length - 5} more subtitles
-                </button>
-              </div>
-            )}
+              {!showAllSubtitles && result.subtitles.length > 5 && (
+                <div className="text-center py-3 sm:py-4">
+                  <button
+                    onClick={() => setShowAllSubtitles(true)}
+                    className="text-purple-300 hover:text-white transition-colors duration-300 text-xs sm:text-sm font-medium"
+                  >
+                    ... and {result.subtitles.length - 5} more subtitles
+                  </button>
+                </div>
+              )}
+            </div>
           </div>
-        </div>
+        )}
       </div>
 
       {/* Technical Details */}
@@ -0,0 +1,430 @@
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import { Play, Pause, Scissors, Merge, Trash2, MoveHorizontal, ZoomIn, Film, AlertCircle } from 'lucide-react';
+import { getCaptionPreviewStyle, getCaptionPositionStyle, getWordStarts, withOpacity } from '../utils/captionStyle';
+import { getCueProblems } from '../utils/cues';
+import type { CaptionOptions, Subtitle } from '../types';
+
+interface TimelineEditorProps {
+  videoFile: File;
+  cues: Subtitle[];
+  options: CaptionOptions;
+  // How the cues were timed when parsed: 'estimate' unless audio-based timing was applied
+  timingMode: string;
+  onCuesChange: (cues: Subtitle[]) => void;
+}
+
+interface DragState {
+  index: number;
+  edge: 'start' | 'end';
+  originX: number;
+  originTime: number;
+}
+
+const MIN_CUE_DURATION = 0.2;
+
+const formatTimestamp = (seconds: number) => {
+  const minutes = Math.floor(seconds / 60);
+  const secs = seconds % 60;
+  return `${minutes.toString().padStart(2, '0')}:${secs.toFixed(2).padStart(5, '0')}`;
+};
+
+// Keep ids sequential and durations in sync after any edit
+const renumber = (cues: Subtitle[]): Subtitle[] =>
+  cues.map((cue, index) => ({ ...cue, id: index + 1, duration: cue.end - cue.start }));
+
+const TimelineEditor: React.FC<TimelineEditorProps> = ({
+  videoFile,
+  cues,
+  options,
+  timingMode,
+  onCuesChange
+}) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [videoUrl, setVideoUrl] = useState<string>('');
+  const [videoDuration, setVideoDuration] = useState(0);
+  const [currentTime, setCurrentTime] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [selectedIndex, setSelectedIndex] = useState<number | null>(cues.length > 0 ? 0 : null);
+  const [pixelsPerSecond, setPixelsPerSecond] = useState(60);
+  const [offset, setOffset] = useState(0);
+  const [drag, setDrag] = useState<DragState | null>(null);
+
+  useEffect(() => {
+    const url = URL.createObjectURL(videoFile);
+    setVideoUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [videoFile]);
+
+  const timelineDuration = Math.max(videoDuration, cues.length ? cues[cues.length - 1].end : 0, 1);
+  const activeCue = cues.find(cue => currentTime >= cue.start && currentTime < cue.end);
+
+  // Words already spoken take the highlight color, like the burned-in karaoke captions
+  const renderKaraoke = (cue: Subtitle) => {
+    const wordStarts = getWordStarts(cue);
+    let wordIndex = 0;
+    return cue.text.trim().split(/(\s+)/).map((token, index) => {
+      if (/^\s+$/.test(token)) return token;
+      const isSpoken = currentTime >= wordStarts[wordIndex++];
+      return (
+        <span key={index} style={isSpoken ? { color: withOpacity(options.highlightColor, options.fontOpacity) } : undefined}>
+          {token}
+        </span>
+      );
+    });
+  };
+  const selectedCue = selectedIndex !== null ? cues[selectedIndex] : null;
+  const cueProblems = getCueProblems(cues);
+  const problemCount = cueProblems.filter(Boolean).length;
+  // Rendering keeps edited timings, so audio timing that did not happen here never happens
+  const audioTimingSkipped = options.timingMode !== 'estimate' && timingMode === 'estimate';
+
+  const seek = useCallback((time: number) => {
+    const clamped = Math.max(0, Math.min(time, videoDuration || time));
+    if (videoRef.current) {
+      videoRef.current.currentTime = clamped;
+    }
+    setCurrentTime(clamped);
+  }, [videoDuration]);
+
+  const updateCue = useCallback((index: number, changes: Partial<Subtitle>) => {
+    onCuesChange(renumber(cues.map((cue, i) => (i === index ? { ...cue, ...changes } : cue))));
+  }, [cues, onCuesChange]);
+
+  // Drag a cue edge, clamped between its neighbours
+  useEffect(() => {
+    if (!drag) return;
+
+    const handleMove = (e: PointerEvent) => {
+      const cue = cues[drag.index];
+      if (!cue) return;
+      const time = drag.originTime + (e.clientX - drag.originX) / pixelsPerSecond;
+
+      if (drag.edge === 'start') {
+        const min = drag.index > 0 ? cues[drag.index - 1].end : 0;
+        const start = Math.max(min, Math.min(time, cue.end - MIN_CUE_DURATION));
+        updateCue(drag.index, { start: Math.round(start * 100) / 100 });
+      } else {
+        const max = drag.index < cues.length - 1 ? cues[drag.index + 1].start : timelineDuration;
+        const end = Math.min(max, Math.max(time, cue.start + MIN_CUE_DURATION));
+        updateCue(drag.index, { end: Math.round(end * 100) / 100 });
+      }
+    };
+
+    const handleUp = () => setDrag(null);
+
+    window.addEventListener('pointermove', handleMove);
+    window.addEventListener('pointerup', handleUp);
+    return () => {
+      window.removeEventListener('pointermove', handleMove);
+      window.removeEventListener('pointerup', handleUp);
+    };
+  }, [drag, cues, pixelsPerSecond, timelineDuration, updateCue]);
+
+  const startDrag = (e: React.PointerEvent, index: number, edge: 'start' | 'end') => {
+    e.preventDefault();
+    e.stopPropagation();
+    setSelectedIndex(index);
+    setDrag({ index, edge, originX: e.clientX, originTime: cues[index][edge] });
+  };
+
+  const togglePlayback = () => {
+    const video = videoRef.current;
+    if (!video) return;
+    if (video.paused) {
+      video.play();
+    } else {
+      video.pause();
+    }
+  };
+
+  // Split at the playhead when it falls inside the cue, otherwise in the middle
+  const handleSplit = () => {
+    if (selectedIndex === null || !selectedCue) return;
+    const words = selectedCue.text.split(/\s+/).filter(Boolean);
+    if (words.length < 2) return;
+
+    const insideCue = currentTime > selectedCue.start + MIN_CUE_DURATION && currentTime < selectedCue.end - MIN_CUE_DURATION;
+    const splitTime = insideCue ? currentTime : (selectedCue.start + selectedCue.end) / 2;
+    const ratio = (splitTime - selectedCue.start) / (selectedCue.end - selectedCue.start);
+    const splitWord = Math.min(words.length - 1, Math.max(1, Math.round(words.length * ratio)));
+
+    const first = { ...selectedCue, text: words.slice(0, splitWord).join(' '), end: splitTime };
+    const second = { ...selectedCue, text: words.slice(splitWord).join(' '), start: splitTime };
+
+    onCuesChange(renumber([
+      ...cues.slice(0, selectedIndex),
+      first,
+      second,
+      ...cues.slice(selectedIndex + 1)
+    ]));
+  };
+
+  const handleMerge = () => {
+    if (selectedIndex === null || selectedIndex >= cues.length - 1) return;
+    const current = cues[selectedIndex];
+    const next = cues[selectedIndex + 1];
+    const merged = { ...current, text: `${current.text} ${next.text}`, end: next.end };
+
+    onCuesChange(renumber([
+      ...cues.slice(0, selectedIndex),
+      merged,
+      ...cues.slice(selectedIndex + 2)
+    ]));
+  };
+
+  const handleDelete = () => {
+    if (selectedIndex === null) return;
+    onCuesChange(renumber(cues.filter((_, i) => i !== selectedIndex)));
+    setSelectedIndex(cues.length > 1 ? Math.max(0, selectedIndex - 1) : null);
+  };
+
+  // Shift every cue by the offset, never before zero
+  const handleApplyOffset = () => {
+    if (!offset) return;
+    const shift = Math.max(offset, cues.length ? -cues[0].start : 0);
+    onCuesChange(renumber(cues.map(cue => ({
+      ...cue,
+      start: Math.round((cue.start + shift) * 100) / 100,
+      end: Math.round((cue.end + shift) * 100) / 100
+    }))));
+    setOffset(0);
+  };
+
+  return (
+    <div className="space-y-6 sm:space-y-8">
+      {(audioTimingSkipped || problemCount > 0) && (
+        <div className="space-y-2">
+          {audioTimingSkipped && (
+            <p className="p-3 bg-yellow-500/20 border border-yellow-300/30 rounded-xl text-yellow-100 text-xs sm:text-sm flex items-start">
+              <AlertCircle className="w-4 h-4 mr-2 mt-0.5 flex-shrink-0" />
+              These subtitles use estimated timing because they could not be timed from the audio. The render keeps the timings set here, so adjust them to the speech before rendering.
+            </p>
+          )}
+          {problemCount > 0 && (
+            <p className="p-3 bg-red-500/20 border border-red-300/30 rounded-xl text-red-200 text-xs sm:text-sm flex items-start">
+              <AlertCircle className="w-4 h-4 mr-2 mt-0.5 flex-shrink-0" />
+              {problemCount === 1 ? '1 subtitle has' : `${problemCount} subtitles have`} invalid timing; fix the ones marked in red to render
+            </p>
+          )}
+        </div>
+      )}
+
+      {/* Video Player */}
+      <div className="bg-white/5 backdrop-blur-sm rounded-2xl p-4 sm:p-6 border border-white/10">
+        <h3 className="text-lg sm:text-xl font-bold text-white mb-4 sm:mb-6 flex items-center">
+          <div className="p-1.5 sm:p-2 bg-gradient-to-r from-pink-500 to-rose-500 rounded-xl mr-2 sm:mr-3">
+            <Film className="w-4 h-4 sm:w-5 sm:h-5 text-white" />
+          </div>
+          Preview
+        </h3>
+
+        <div className="relative bg-black/40 rounded-xl overflow-hidden border border-white/10">
+          <video
+            ref={videoRef}
+            src={videoUrl}
+            className="w-full max-h-64 sm:max-h-80 lg:max-h-96 object-contain mx-auto"
+            onLoadedMetadata={(e) => setVideoDuration(e.currentTarget.duration)}
+            onTimeUpdate={(e) => setCurrentTime(e.currentTarget.currentTime)}
+            onPlay={() => setIsPlaying(true)}
+            onPause={() => setIsPlaying(false)}
+          />
+          {activeCue && (
+            <div className="pointer-events-none" style={getCaptionPositionStyle(options)}>
+              <span
+                className="inline-block whitespace-pre-line"
+                style={getCaptionPreviewStyle(options)}
+              >
+                {options.captionStyle === 'karaoke' ? renderKaraoke(activeCue) : activeCue.text}
+              </span>
+            </div>
+          )}
+        </div>
+
+        <div className="flex items-center justify-between mt-3">
+          <button
+            onClick={togglePlayback}
+            className="p-2 sm:p-3 bg-gradient-to-r from-purple-500 to-pink-500 rounded-xl hover:scale-105 transition-all duration-300"
+            title={isPlaying ? 'Pause' : 'Play'}
+          >
+            {isPlaying ? <Pause className="w-4 h-4 sm:w-5 sm:h-5 text-white" /> : <Play className="w-4 h-4 sm:w-5 sm:h-5 text-white" />}
+          </button>
+          <span className="text-purple-200 font-mono text-xs sm:text-sm">
+            {formatTimestamp(currentTime)} / {formatTimestamp(timelineDuration)}
+          </span>
+          <div className="flex items-center space-x-2 text-purple-200">
+            <ZoomIn className="w-4 h-4" />
+            <input
+              type="range"
+              min="20"
+              max="200"
+              value={pixelsPerSecond}
+              onChange={(e) => setPixelsPerSecond(parseInt(e.target.value))}
+              className="w-20 sm:w-32 h-2 bg-white/10 rounded-lg appearance-none cursor-pointer slider"
+              title="Timeline zoom"
+            />
+          </div>
+        </div>
+      </div>
+
+      {/* Timeline */}
+      <div className="bg-black/20 rounded-2xl p-3 sm:p-4 border border-white/10 overflow-x-auto custom-scrollbar">
+        <div
+          className="relative h-24 select-none"
+          style={{ width: `${timelineDuration * pixelsPerSecond}px` }}
+          onPointerDown={(e) => {
+            const rect = e.currentTarget.getBoundingClientRect();
+            seek((e.clientX - rect.left) / pixelsPerSecond);
+          }}
+        >
+          {/* Second ticks */}
+          {Array.from({ length: Math.ceil(timelineDuration) + 1 }, (_, second) => (
+            <div
+              key={second}
+              className="absolute top-0 h-full border-l border-white/10"
+              style={{ left: `${second * pixelsPerSecond}px` }}
+            >
+              {second % 5 === 0 && (
+                <span className="absolute top-0 left-1 text-[10px] text-purple-300 font-mono">{formatTimestamp(second).slice(0, 5)}</span>
+              )}
+            </div>
+          ))}
+
+          {/* Cues */}
+          {cues.map((cue, index) => (
+            <div
+              key={index}
+              className={`absolute top-6 h-14 rounded-lg border overflow-hidden cursor-pointer transition-colors duration-200 ${
+                index === selectedIndex
+                  ? 'bg-gradient-to-r from-purple-500/70 to-pink-500/70 border-white'
+                  : 'bg-purple-500/30 border-purple-300/40 hover:bg-purple-500/50'
+              } ${cueProblems[index] ? 'ring-2 ring-red-400' : ''}`}
+              style={{
+                left: `${cue.start * pixelsPerSecond}px`,
+                width: `${Math.max(4, (cue.end - cue.start) * pixelsPerSecond)}px`
+              }}
+              onPointerDown={(e) => {
+                e.stopPropagation();
+                setSelectedIndex(index);
+                seek(cue.start);
+              }}
+            >
+              <div
+                className="absolute left-0 top-0 h-full w-2 bg-white/40 hover:bg-white cursor-ew-resize"
+                onPointerDown={(e) => startDrag(e, index, 'start')}
+              />
+              <p className="px-3 py-1 text-white text-xs leading-tight line-clamp-3 pointer-events-none">{cue.text}</p>
+              <div
+                className="absolute right-0 top-0 h-full w-2 bg-white/40 hover:bg-white cursor-ew-resize"
+                onPointerDown={(e) => startDrag(e, index, 'end')}
+              />
+            </div>
+          ))}
+
+          {/* Playhead */}
+          <div
+            className="absolute top-0 h-full w-0.5 bg-pink-400 pointer-events-none"
+            style={{ left: `${currentTime * pixelsPerSecond}px` }}
+          />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-4 sm:gap-6">
+        {/* Selected Cue */}
+        <div className="lg:col-span-2 bg-white/5 backdrop-blur-sm rounded-2xl p-4 sm:p-6 border border-white/10">
+          {selectedCue && selectedIndex !== null ? (
+            <div className="space-y-3 sm:space-y-4">
+              <div className="flex items-center justify-between">
+                <h4 className="text-white font-bold text-sm sm:text-base">Subtitle {selectedIndex + 1} of {cues.length}</h4>
+                <div className="flex space-x-2">
+                  <button
+                    onClick={handleSplit}
+                    disabled={selectedCue.text.split(/\s+/).filter(Boolean).length < 2}
+                    className="p-2 bg-white/10 hover:bg-white/20 rounded-lg transition-all duration-300 disabled:opacity-40 disabled:cursor-not-allowed"
+                    title="Split at playhead"
+                  >
+                    <Scissors className="w-4 h-4 text-white" />
+                  </button>
+                  <button
+                    onClick={handleMerge}
+                    disabled={selectedIndex >= cues.length - 1}
+                    className="p-2 bg-white/10 hover:bg-white/20 rounded-lg transition-all duration-300 disabled:opacity-40 disabled:cursor-not-allowed"
+                    title="Merge with next"
+                  >
+                    <Merge className="w-4 h-4 text-white" />
+                  </button>
+                  <button
+                    onClick={handleDelete}
+                    className="p-2 bg-red-500/20 hover:bg-red-500/40 rounded-lg transition-all duration-300"
+                    title="Delete subtitle"
+                  >
+                    <Trash2 className="w-4 h-4 text-red-300" />
+                  </button>
+                </div>
+              </div>
+
+              <textarea
+                value={selectedCue.text}
+                onChange={(e) => updateCue(selectedIndex, { text: e.target.value })}
+                rows={2}
+                className="w-full px-3 sm:px-4 py-2 sm:py-3 bg-white/10 border border-white/20 rounded-xl text-white placeholder-white/50 focus:outline-none focus:ring-2 focus:ring-purple-500 focus:border-transparent transition-all duration-300 resize-none text-sm sm:text-base"
+              />
+
+              <div className="grid grid-cols-2 gap-3 sm:gap-4">
+                {(['start', 'end'] as const).map((edge) => (
+                  <div key={edge} className="space-y-1">
+                    <label className="block text-xs font-semibold text-purple-200 capitalize">{edge} (seconds)</label>
+                    <input
+                      type="number"
+                      step="0.05"
+                      min="0"
+                      value={selectedCue[edge]}
+                      onChange={(e) => {
+                        // Any time can be typed on the way to the intended one; problems are flagged, not refused
+                        const value = parseFloat(e.target.value);
+                        if (Number.isNaN(value) || value < 0) return;
+                        updateCue(selectedIndex, { [edge]: value });
+                      }}
+                      className={`w-full px-3 py-2 bg-white/10 border rounded-xl text-white focus:outline-none focus:ring-2 focus:ring-purple-500 focus:border-transparent transition-all duration-300 text-sm font-mono ${
+                        cueProblems[selectedIndex] ? 'border-red-400' : 'border-white/20'
+                      }`}
+                    />
+                  </div>
+                ))}
+              </div>
+              {cueProblems[selectedIndex] && (
+                <p className="text-xs text-red-300">{cueProblems[selectedIndex]}</p>
+              )}
+            </div>
+          ) : (
+            <p className="text-purple-200 text-sm text-center py-6">Select a subtitle on the timeline to edit it</p>
+          )}
+        </div>
+
+        {/* Global Offset */}
+        <div className="bg-white/5 backdrop-blur-sm rounded-2xl p-4 sm:p-6 border border-white/10 space-y-3 sm:space-y-4">
+          <h4 className="text-white font-bold text-sm sm:text-base flex items-center">
+            <MoveHorizontal className="w-4 h-4 mr-2 text-purple-300" />
+            Nudge All Subtitles
+          </h4>
+          <input
+            type="number"
+            step="0.1"
+            value={offset}
+            onChange={(e) => setOffset(parseFloat(e.target.value) || 0)}
+            className="w-full px-3 py-2 bg-white/10 border border-white/20 rounded-xl text-white focus:outline-none focus:ring-2 focus:ring-purple-500 focus:border-transparent transition-all duration-300 text-sm font-mono"
+          />
+          <p className="text-xs text-purple-300">Seconds to shift every subtitle (negative moves earlier)</p>
+          <button
+            onClick={handleApplyOffset}
+            disabled={!offset}
+            className="w-full py-2 bg-gradient-to-r from-purple-500 to-pink-500 text-white font-semibold rounded-xl hover:from-purple-600 hover:to-pink-600 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-300 text-sm"
+          >
+            Apply Offset
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TimelineEditor;
@@ -0,0 +1,212 @@
+export interface CaptionOptions {
+  baseDuration: number;
+  wordDuration: number;
+  timingMode: string;
+  silenceThreshold: number;
+  minSilenceDuration: number;
+  splitMode: string;
+  maxChars: number;
+  maxLineChars: number;
+  maxLines: number;
+  fontColor: string;
+  fontWeight: string;
+  captionStyle: string;
+  highlightColor: string;
+  animation: string;
+  fontSize: number;
+  fontSizeUnit: string;
+  fontFamily: string;
+  fontOpacity: number;
+  italic: boolean;
+  underline: boolean;
+  outlineColor: string;
+  outlineOpacity: number;
+  outlineWidth: number;
+  shadowColor: string;
+  shadowOpacity: number;
+  shadowDepth: number;
+  backgroundBox: boolean;
+  backgroundColor: string;
+  backgroundOpacity: number;
+  marginH: number;
+  marginV: number;
+  position: string;
+  offsetX: number;
+  offsetY: number;
+  safeZone: string;
+  outputMode: string;
+  previewStart: number;
+  previewDuration: number;
+  previewFormat: string;
+  videoCodec: string;
+  crf: number;
+  speedPreset: string;
+  outputWidth: number;
+  outputHeight: number;
+  resizeMode: string;
+  frameRate: number;
+  container: string;
+}
+
+export interface Subtitle {
+  id: number;
+  text: string;
+  start: number;
+  end: number;
+  duration: number;
+}
+
+export type SubtitleFormat = 'srt' | 'vtt' | 'ass' | 'json';
+
+export type SubtitleUrls = Partial<Record<SubtitleFormat, string>>;
+
+// Extra output of a job made with a platform export profile
+export interface Rendition {
+  profile: string;
+  label: string;
+  success: boolean;
+  duration?: string;
+  durationSeconds?: number;
+  subtitlesCount?: number;
+  previewUrl?: string;
+  downloadUrl?: string;
+  subtitleUrls?: SubtitleUrls;
+  error?: string;
+}
+
+export interface ProcessingResult {
+  success: boolean;
+  duration: string;
+  durationSeconds: number;
+  subtitlesCount: number;
+  timingMode?: string;
+  outputMode?: string;
+  previewUrl: string;
+  previewStart?: number;
+  previewDuration?: number;
+  downloadUrl: string;
+  subtitleUrls?: SubtitleUrls;
+  subtitles: Subtitle[];
+  renditions?: Rendition[];
+  sourceJobId?: string;
+}
+
+export interface BatchProcessingResult {
+  success: boolean;
+  jobId: string;
+  batchMode: true;
+  totalPairs: number;
+  results: Array<{
+    index: number;
+    scriptName: string;
+    videoName: string;
+    success: boolean;
+    duration?: string;
+    durationSeconds?: number;
+    subtitlesCount?: number;
+    previewUrl?: string;
+    downloadUrl?: string;
+    subtitleUrls?: SubtitleUrls;
+    subtitles?: Subtitle[];
+    renditions?: Rendition[];
+    error?: string;
+  }>;
+  successCount: number;
+  failureCount: number;
+}
+
+export type JobStatus = 'processing' | 'completed' | 'failed' | 'cancelled';
+
+export interface JobOutput {
+  label: string;
+  previewUrl?: string;
+  downloadUrl?: string;
+  subtitleUrls: SubtitleUrls;
+}
+
+export interface JobSummary {
+  id: string;
+  type: 'single' | 'batch' | 'rerender';
+  status: JobStatus;
+  progress: number;
+  statusMessage: string;
+  inputs: Array<{ scriptName: string; videoName: string }>;
+  createdAt: string;
+  completedAt: string | null;
+  error: string | null;
+  duration?: string;
+  subtitlesCount?: number;
+  successCount?: number;
+  failureCount?: number;
+  artifactsDeleted: boolean;
+  outputs: JobOutput[];
+}
+
+// Progress of a job as reported by /api/progress and the job event stream
+export interface JobProgress {
+  progress: number;
+  status: string;
+  jobStatus?: JobStatus;
+  queuePosition?: number;
+}
+
+// Per-pair progress of a batch job from the job event stream
+export interface PairProgress {
+  index: number;
+  videoName: string;
+  progress: number;
+  status: string;
+  error?: string;
+}
+
+// Final payload of a job: its result, or the failure/cancellation details
+export type JobResult = (ProcessingResult | BatchProcessingResult | { success: false }) & {
+  error?: string;
+  details?: string;
+  cancelled?: boolean;
+};
+
+// Chunked upload of a picked video, started as soon as it is selected
+export interface FileUpload {
+  status: 'uploading' | 'complete' | 'error';
+  progress: number;
+  error?: string;
+  uploadId?: string;
+}
+
+// Named caption options saved on the server
+export interface CaptionPreset {
+  id: string;
+  name: string;
+  options: CaptionOptions;
+  isDefault: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Output codec the server's FFmpeg can encode; quality is a CRF on the codec's own scale
+export interface VideoCodec {
+  id: string;
+  label: string;
+  containers: string[];
+  crf: { min: number; max: number; default: number };
+}
+
+// Platform export profile offered by the server
+export interface ExportProfile {
+  id: string;
+  label: string;
+  description: string;
+  width: number;
+  height: number;
+  maxDuration: number;
+}
+
+// Font uploaded to the server's font library
+export interface CustomFont {
+  id: string;
+  family: string;
+  fileName: string;
+  size: number;
+  url: string;
+}
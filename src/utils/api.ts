@@ -0,0 +1,15 @@
+// Base URL of the local captioning server
+export const API_BASE_URL = 'http://localhost:3001';
+
+// Previews are GIFs unless an MP4 or WebM clip was chosen
+export const isVideoPreview = (url: string) => /\.(mp4|webm)$/i.test(url);
+
+// Trigger a browser download for a server-relative URL such as /download/captioned-123.mp4
+export const downloadFile = (url: string) => {
+  const link = document.createElement('a');
+  link.href = `${API_BASE_URL}${url}`;
+  link.download = ''; // This attribute forces download
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+};
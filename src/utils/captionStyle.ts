@@ -0,0 +1,109 @@
+import type { CSSProperties } from 'react';
+import { SAFE_ZONES } from './safeZones';
+import type { CaptionOptions, Subtitle } from '../types';
+
+// #RRGGBB plus a 0-100 % opacity as a CSS rgba() colour
+export const withOpacity = (hex: string, opacity: number) => {
+  const value = parseInt(hex.replace('#', ''), 16);
+  return `rgba(${(value >> 16) & 255}, ${(value >> 8) & 255}, ${value & 255}, ${opacity / 100})`;
+};
+
+// When each word of a cue starts for karaoke highlighting: the cue's time shared out by
+// word length, as the server does when the aligner has no word timings
+export const getWordStarts = (cue: Subtitle) => {
+  const words = cue.text.split(/\s+/).filter(Boolean);
+  const totalLength = words.reduce((sum, word) => sum + word.length, 0);
+  let elapsed = 0;
+  return words.map(word => {
+    const start = cue.start + (elapsed / totalLength) * (cue.end - cue.start);
+    elapsed += word.length;
+    return start;
+  });
+};
+
+// CSS approximation of how libass draws a caption with these options, for in-browser previews.
+// `scale` converts the server's 288-pixel-high reference frame to preview pixels; a font size
+// in percent is of that frame's height.
+export const getCaptionPreviewStyle = (options: CaptionOptions, scale = 0.75): CSSProperties => {
+  const outline = options.outlineWidth * scale;
+  const shadow = options.shadowDepth * scale;
+  const outlineColor = withOpacity(options.outlineColor, options.outlineOpacity);
+
+  const textShadows = [];
+  if (!options.backgroundBox && outline > 0) {
+    textShadows.push(
+      `${-outline}px 0 0 ${outlineColor}`, `${outline}px 0 0 ${outlineColor}`,
+      `0 ${-outline}px 0 ${outlineColor}`, `0 ${outline}px 0 ${outlineColor}`
+    );
+  }
+  if (shadow > 0) {
+    textShadows.push(`${shadow}px ${shadow}px 0 ${withOpacity(options.shadowColor, options.shadowOpacity)}`);
+  }
+
+  return {
+    color: withOpacity(options.fontColor, options.fontOpacity),
+    fontFamily: options.fontFamily,
+    fontWeight: options.fontWeight === 'bold' ? 700 : 400,
+    fontStyle: options.italic ? 'italic' : 'normal',
+    textDecoration: options.underline ? 'underline' : 'none',
+    fontSize: `${Math.max(12, (options.fontSizeUnit === 'percent' ? options.fontSize * 2.88 : options.fontSize) * scale)}px`,
+    textShadow: textShadows.join(', ') || 'none',
+    backgroundColor: options.backgroundBox ? withOpacity(options.backgroundColor, options.backgroundOpacity) : 'transparent',
+    padding: options.backgroundBox ? `${Math.max(1, options.outlineWidth) * scale}px` : undefined
+  };
+};
+
+// Row and column of each caption position in the 3x3 grid
+export const POSITION_GRID: Record<string, [string, string]> = {
+  'top-left': ['top', 'left'],
+  'top': ['top', 'center'],
+  'top-right': ['top', 'right'],
+  'left': ['middle', 'left'],
+  'center': ['middle', 'center'],
+  'right': ['middle', 'right'],
+  'bottom-left': ['bottom', 'left'],
+  'bottom': ['bottom', 'center'],
+  'bottom-right': ['bottom', 'right']
+};
+
+// Absolute positioning of a caption inside a preview frame, matching the server's layout: the
+// grid position inside the margins (reference-frame units as percentages of the frame) or the
+// safe zone, whichever is larger, moved by the X/Y offsets
+export const getCaptionPositionStyle = (options: CaptionOptions): CSSProperties => {
+  const [row, column] = POSITION_GRID[options.position] || POSITION_GRID.bottom;
+  const zone = SAFE_ZONES[options.safeZone];
+  const insets = {
+    left: `max(${(options.marginH / 384) * 100}%, ${zone?.left ?? 0}%)`,
+    right: `max(${(options.marginH / 384) * 100}%, ${zone?.right ?? 0}%)`,
+    top: `max(${(options.marginV / 288) * 100}%, ${zone?.top ?? 0}%)`,
+    bottom: `max(${(options.marginV / 288) * 100}%, ${zone?.bottom ?? 0}%)`
+  };
+
+  const style: CSSProperties = {
+    position: 'absolute',
+    textAlign: column as CSSProperties['textAlign'],
+    maxWidth: `calc(100% - ${insets.left} - ${insets.right})`
+  };
+  const translate = ['0', '0'];
+
+  if (column === 'left') {
+    style.left = `calc(${insets.left} + ${options.offsetX}%)`;
+  } else if (column === 'right') {
+    style.right = `calc(${insets.right} - ${options.offsetX}%)`;
+  } else {
+    style.left = `calc(50% + (${insets.left} - ${insets.right}) / 2 + ${options.offsetX}%)`;
+    translate[0] = '-50%';
+  }
+
+  if (row === 'top') {
+    style.top = `calc(${insets.top} + ${options.offsetY}%)`;
+  } else if (row === 'bottom') {
+    style.bottom = `calc(${insets.bottom} - ${options.offsetY}%)`;
+  } else {
+    style.top = `calc(50% + ${options.offsetY}%)`;
+    translate[1] = '-50%';
+  }
+
+  style.transform = `translate(${translate.join(', ')})`;
+  return style;
+};
@@ -0,0 +1,10 @@
+import type { Subtitle } from '../types';
+
+// What is wrong with each cue's timing, by index (null when it is fine). The server drops
+// cues that end before they start, and overlapping cues would show two captions at once.
+export const getCueProblems = (cues: Subtitle[]) =>
+  cues.map((cue, index) => {
+    if (!(cue.end > cue.start)) return 'Ends before it starts';
+    if (index > 0 && cue.start < cues[index - 1].end) return `Overlaps subtitle ${index}`;
+    return null;
+  });
@@ -0,0 +1,6 @@
+import type { CaptionOptions, CaptionPreset } from '../types';
+
+// Whether the current options are still exactly what the preset sets; a preset saved before
+// a setting existed does not set it, so it no longer matches
+export const matchesPreset = (options: CaptionOptions, preset: CaptionPreset) =>
+  (Object.keys(options) as Array<keyof CaptionOptions>).every(key => options[key] === preset.options[key]);
@@ -0,0 +1,18 @@
+// TypeScript port of server/lib/safeZones.js. Both must stay in sync so the
+// overlay in the customize step matches what gets rendered.
+
+export interface SafeZone {
+  label: string;
+  top: number;
+  bottom: number;
+  left: number;
+  right: number;
+}
+
+// Parts of the frame that platform UI covers, as percentages of the frame's height (top/bottom) or width (left/right)
+export const SAFE_ZONES: Record<string, SafeZone> = {
+  tiktok: { label: 'TikTok', top: 8, bottom: 22, left: 5, right: 12 },
+  reels: { label: 'Instagram Reels', top: 13, bottom: 18, left: 5, right: 10 },
+  shorts: { label: 'YouTube Shorts', top: 12, bottom: 20, left: 5, right: 13 },
+  youtube: { label: 'YouTube', top: 5, bottom: 10, left: 5, right: 5 }
+};
@@ -0,0 +1,150 @@
+// TypeScript port of server/lib/segmentation.js. Both must stay in sync so the
+// runtime estimate matches the subtitles the server produces.
+
+export type SplitMode = 'line' | 'sentence' | 'paragraph' | 'characters';
+
+export const DEFAULT_MAX_CHARS = 80;
+
+const ABBREVIATIONS = new Set([
+  'mr', 'mrs', 'ms', 'dr', 'prof', 'sr', 'jr', 'st', 'mt', 'ft', 'vs', 'etc', 'approx', 'dept',
+  'inc', 'ltd', 'co', 'corp', 'no', 'nos', 'fig', 'vol', 'ch', 'p', 'pp', 'est', 'gen', 'gov',
+  'sgt', 'capt', 'lt', 'col', 'rev', 'hon', 'ave', 'blvd', 'rd',
+  'jan', 'feb', 'mar', 'apr', 'jun', 'jul', 'aug', 'sep', 'sept', 'oct', 'nov', 'dec',
+  'e.g', 'i.e', 'a.m', 'p.m', 'u.s', 'u.k', 'u.s.a', 'ph.d', 'b.a', 'm.a'
+]);
+
+const CLOSING_CHARS = `"'”’)]}»`;
+const OPENING_CHARS = `"'“‘([{«¿¡`;
+
+const normalizeWhitespace = (text: string) => text.replace(/\s+/g, ' ').trim();
+
+const splitParagraphs = (text: string) =>
+  text
+    .split(/\r?\n[ \t]*\r?\n/)
+    .map(normalizeWhitespace)
+    .filter(Boolean);
+
+const wordBefore = (text: string, index: number) => {
+  let start = index;
+  while (start > 0 && /[^\s"'“‘([{]/.test(text[start - 1])) {
+    start--;
+  }
+  return text.slice(start, index);
+};
+
+const isSentencePeriod = (text: string, index: number, nextChar: string) => {
+  const prevChar = text[index - 1] || '';
+  if (/\d/.test(prevChar) && /\d/.test(text[index + 1] || '')) return false;
+
+  const word = wordBefore(text, index).toLowerCase();
+  if (ABBREVIATIONS.has(word)) return false;
+  if (/^[a-z]$/i.test(word) && /[A-Z]/.test(nextChar)) return false;
+  if (/[a-z]/.test(nextChar)) return false;
+
+  return true;
+};
+
+export const splitSentences = (paragraph: string): string[] => {
+  const text = normalizeWhitespace(paragraph);
+  const sentences: string[] = [];
+  let start = 0;
+  let i = 0;
+
+  while (i < text.length) {
+    const char = text[i];
+    if (char !== '.' && char !== '!' && char !== '?' && char !== '…') {
+      i++;
+      continue;
+    }
+
+    let end = i;
+    while (end + 1 < text.length && /[.!?…]/.test(text[end + 1])) end++;
+    const terminator = text.slice(i, end + 1);
+    while (end + 1 < text.length && CLOSING_CHARS.includes(text[end + 1])) end++;
+
+    if (end + 1 < text.length && text[end + 1] !== ' ') {
+      i = end + 1;
+      continue;
+    }
+
+    let next = end + 1;
+    while (next < text.length && text[next] === ' ') next++;
+    let nextChar = text[next] || '';
+    if (OPENING_CHARS.includes(nextChar)) nextChar = text[next + 1] || '';
+
+    let isBoundary: boolean;
+    if (!nextChar) {
+      isBoundary = true;
+    } else if (terminator === '.') {
+      isBoundary = isSentencePeriod(text, i, nextChar);
+    } else if (/^(\.{2,}|…)$/.test(terminator)) {
+      isBoundary = /[A-Z0-9]/.test(nextChar);
+    } else {
+      isBoundary = true;
+    }
+
+    if (isBoundary) {
+      sentences.push(text.slice(start, end + 1).trim());
+      start = next;
+    }
+    i = end + 1;
+  }
+
+  const rest = text.slice(start).trim();
+  if (rest) sentences.push(rest);
+
+  return sentences;
+};
+
+export const wrapText = (text: string, maxChars = DEFAULT_MAX_CHARS): string[] => {
+  if (text.length <= maxChars) return [text];
+
+  const chunkCount = Math.ceil(text.length / maxChars);
+  const target = Math.ceil(text.length / chunkCount);
+  const chunks: string[] = [];
+  let current = '';
+
+  text.split(' ').forEach(word => {
+    const candidate = current ? `${current} ${word}` : word;
+    if (current && (candidate.length > maxChars || current.length >= target)) {
+      chunks.push(current);
+      current = word;
+    } else {
+      current = candidate;
+    }
+  });
+  if (current) chunks.push(current);
+
+  return chunks.flatMap(chunk => {
+    if (chunk.length <= maxChars) return [chunk];
+    const pieces: string[] = [];
+    for (let i = 0; i < chunk.length; i += maxChars) {
+      pieces.push(chunk.slice(i, i + maxChars));
+    }
+    return pieces;
+  });
+};
+
+export const segmentScript = (
+  scriptContent: string,
+  options: { splitMode?: string; maxChars?: number } = {}
+): string[] => {
+  const { splitMode = 'line', maxChars = DEFAULT_MAX_CHARS } = options;
+
+  switch (splitMode) {
+    case 'sentence':
+      return splitParagraphs(scriptContent).flatMap(splitSentences);
+    case 'paragraph':
+      return splitParagraphs(scriptContent);
+    case 'characters':
+      return splitParagraphs(scriptContent)
+        .flatMap(splitSentences)
+        .flatMap(sentence => wrapText(sentence, maxChars));
+    case 'line':
+    default:
+      return scriptContent
+        .split('\n')
+        .map(line => line.trim())
+        .filter(Boolean);
+  }
+};
@@ -0,0 +1,131 @@
+import { API_BASE_URL } from './api';
+
+// Chunk PATCHes that fail are retried this many times, waiting a little longer each time
+const MAX_CHUNK_RETRIES = 5;
+const RETRY_DELAY_MS = 1000;
+
+interface UploadDescription {
+  uploadId: string;
+  size: number;
+  offset: number;
+  complete: boolean;
+  chunkSize: number;
+}
+
+// Identifies a file across page reloads so an interrupted upload can be resumed
+export const getFileKey = (file: File) => `${file.name}:${file.size}:${file.lastModified}`;
+
+const storageKey = (file: File) => `upload:${getFileKey(file)}`;
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const readError = async (response: Response, fallback: string) => {
+  try {
+    const data = await response.json();
+    return data.error || fallback;
+  } catch {
+    return fallback;
+  }
+};
+
+// The server's view of an earlier upload of this file, if it still has it
+const findExistingUpload = async (file: File): Promise<UploadDescription | null> => {
+  const uploadId = localStorage.getItem(storageKey(file));
+  if (!uploadId) return null;
+
+  const response = await fetch(`${API_BASE_URL}/api/uploads/${uploadId}`);
+  if (!response.ok) {
+    localStorage.removeItem(storageKey(file));
+    return null;
+  }
+  return response.json();
+};
+
+const createUpload = async (file: File, kind: 'video' | 'script'): Promise<UploadDescription> => {
+  const response = await fetch(`${API_BASE_URL}/api/uploads`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ fileName: file.name, size: file.size, mimeType: file.type, kind })
+  });
+  if (!response.ok) {
+    throw new Error(await readError(response, `Failed to start uploading ${file.name}`));
+  }
+
+  const upload: UploadDescription = await response.json();
+  localStorage.setItem(storageKey(file), upload.uploadId);
+  return upload;
+};
+
+// Upload a file in chunks, resuming an earlier attempt when the server still has it.
+// Reports progress as a 0-100 percentage and resolves with the finalized upload id.
+export const uploadFile = async (
+  file: File,
+  kind: 'video' | 'script',
+  onProgress: (progress: number) => void,
+  signal?: AbortSignal
+): Promise<string> => {
+  const upload = (await findExistingUpload(file)) || (await createUpload(file, kind));
+  let offset = upload.offset;
+  let failures = 0;
+
+  onProgress(Math.round((offset / file.size) * 100));
+
+  while (offset < file.size) {
+    const chunk = file.slice(offset, offset + upload.chunkSize);
+
+    let response: Response | null = null;
+    try {
+      response = await fetch(`${API_BASE_URL}/api/uploads/${upload.uploadId}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/offset+octet-stream',
+          'Upload-Offset': offset.toString()
+        },
+        body: chunk,
+        signal
+      });
+    } catch (err) {
+      // A dropped connection is retried below; a cancelled upload stops here
+      if (signal?.aborted) throw err;
+    }
+
+    if (response?.ok) {
+      offset = (await response.json()).offset;
+      failures = 0;
+    } else {
+      // 409 means the server is at a different offset, e.g. part of a dropped chunk arrived
+      if (response && response.status !== 409) {
+        throw new Error(await readError(response, `Failed to upload ${file.name}`));
+      }
+      if (++failures > MAX_CHUNK_RETRIES) {
+        throw new Error(`Upload of ${file.name} keeps failing. Please check your connection and try again.`);
+      }
+
+      await wait(RETRY_DELAY_MS * failures);
+      const existing = await findExistingUpload(file).catch(() => null);
+      if (existing) {
+        offset = existing.offset;
+      }
+    }
+
+    onProgress(Math.round((offset / file.size) * 100));
+  }
+
+  const response = await fetch(`${API_BASE_URL}/api/uploads/${upload.uploadId}/complete`, { method: 'POST', signal });
+  if (!response.ok) {
+    throw new Error(await readError(response, `Failed to finish uploading ${file.name}`));
+  }
+
+  localStorage.removeItem(storageKey(file));
+  return upload.uploadId;
+};
+
+// Give up on a file's upload and let the server delete what it received. A finished upload is no
+// longer remembered for resuming, so its id has to be passed in.
+export const discardUpload = async (file: File, finishedUploadId?: string) => {
+  const uploadId = finishedUploadId || localStorage.getItem(storageKey(file));
+  localStorage.removeItem(storageKey(file));
+  if (uploadId) {
+    await fetch(`${API_BASE_URL}/api/uploads/${uploadId}`, { method: 'DELETE' }).catch(() => undefined);
+  }
+};